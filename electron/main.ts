@@ -1,10 +1,19 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import * as path from 'path';
 import * as isDev from 'electron-is-dev';
 import { autoUpdater } from 'electron-updater';
 import { NetworkScanner } from './services/network-scanner';
 import { SshConnector } from './services/ssh-connector';
 import { InstallerEngine } from './services/installer-engine';
+import { ReleaseVerifier } from './services/release-verifier';
+import { FirmwareCache } from './services/firmware-cache';
+import { OfflineLibrary } from './services/offline-library';
+import { InstallQueue } from './services/install-queue';
+import { HostKeyStore } from './services/host-key-store';
+import { ScanProfileStore } from './services/scan-profile-store';
+import { SettingsStore } from './services/settings-store';
+import { ReleaseService } from './services/release-service';
+import { SshCredentials, InstallOptions, ScanProfile, AppSettings } from '../shared/types';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -51,16 +60,81 @@ app.whenReady().then(() => {
   });
 
   // Initialize services
-  const networkScanner = new NetworkScanner();
-  const sshConnector = new SshConnector();
-  const installerEngine = new InstallerEngine();
+  // One SSH session manager shared by every service, so a password entered once is reused everywhere
+  const sshConnector = new SshConnector({
+    hostKeyStore: new HostKeyStore({ storePath: path.join(app.getPath('userData'), 'host-keys.json') }),
+  });
+  const networkScanner = new NetworkScanner({ sshConnector });
+  const scanProfileStore = new ScanProfileStore({
+    storePath: path.join(app.getPath('userData'), 'scan-profiles.json'),
+  });
+  const settingsStore = new SettingsStore({
+    storePath: path.join(app.getPath('userData'), 'settings.json'),
+  });
+  const releaseVerifier = new ReleaseVerifier({
+    // Comma-separated list of publisher pubkeys allowed to sign releases
+    trustedPubkeys: process.env.TOLLGATE_TRUSTED_PUBKEYS?.split(',').map(key => key.trim()).filter(Boolean),
+  });
+  const firmwareCache = new FirmwareCache({
+    // Keep downloaded firmware across sessions so identical routers can be flashed back to back
+    cacheDir: path.join(app.getPath('userData'), 'firmware-cache'),
+  });
+  const installerEngine = new InstallerEngine({
+    sshConnector,
+    releaseVerifier,
+    firmwareCache,
+    backupDir: path.join(app.getPath('userData'), 'config-backups')
+  });
+  const installQueue = new InstallQueue(installerEngine, {
+    concurrency: Number(process.env.TOLLGATE_INSTALL_CONCURRENCY) || undefined,
+  });
+  const offlineLibrary = new OfflineLibrary({
+    libraryDir: path.join(app.getPath('userData'), 'offline-library'),
+    releaseVerifier,
+    firmwareCache,
+  });
+  // The only place releases are fetched from relays; the renderer lists them over IPC
+  const releaseService = new ReleaseService({
+    releaseVerifier,
+    cachePath: path.join(app.getPath('userData'), 'release-cache.json'),
+    relayUrls: settingsStore.get().relayUrls,
+  });
+  releaseService.start();
 
   // Register IPC handlers
-  setupIpcHandlers(networkScanner, sshConnector, installerEngine);
+  setupIpcHandlers(
+    networkScanner,
+    scanProfileStore,
+    settingsStore,
+    sshConnector,
+    installQueue,
+    offlineLibrary,
+    releaseService
+  );
+  
+  // Push install job updates to the renderer
+  installQueue.onJobUpdated((job) => {
+    if (mainWindow && !mainWindow.webContents.isDestroyed()) {
+      mainWindow.webContents.send('install-job-updated', job);
+    }
+  });
+
+  // Push release list and relay health changes to the renderer
+  releaseService.onReleasesChanged((releases) => {
+    if (mainWindow && !mainWindow.webContents.isDestroyed()) {
+      mainWindow.webContents.send('releases-changed', releases);
+    }
+  });
+  releaseService.onRelayHealthChanged((health) => {
+    if (mainWindow && !mainWindow.webContents.isDestroyed()) {
+      mainWindow.webContents.send('relay-health-changed', health);
+    }
+  });
   
   // Clean up resources when app is about to quit
   app.on('before-quit', async () => {
     console.log('Application shutting down, cleaning up resources...');
+    releaseService.stop();
     try {
       // Close all SSH connections
       await sshConnector.closeAllConnections();
@@ -79,17 +153,84 @@ app.on('window-all-closed', () => {
 
 function setupIpcHandlers(
   networkScanner: NetworkScanner,
+  scanProfileStore: ScanProfileStore,
+  settingsStore: SettingsStore,
   sshConnector: SshConnector,
-  installerEngine: InstallerEngine
+  installQueue: InstallQueue,
+  offlineLibrary: OfflineLibrary,
+  releaseService: ReleaseService
 ) {
   // Network scanning
-  ipcMain.handle('scan-network', async () => {
-    return await networkScanner.scan();
+  ipcMain.handle('scan-network', async (event, profileId?: string) => {
+    const profile = scanProfileStore.get(profileId);
+    console.log(`Scanning with profile "${profile.name}"`);
+    return await networkScanner.scan((scanEvent) => {
+      // Stream progress and routers to the window that started the scan
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('scan-event', scanEvent);
+      }
+    }, profile);
+  });
+
+  // Scan profiles
+  ipcMain.handle('list-scan-profiles', async () => {
+    return scanProfileStore.list();
+  });
+
+  ipcMain.handle('save-scan-profile', async (_, profile: ScanProfile) => {
+    try {
+      return { success: true, profile: scanProfileStore.save(profile) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  ipcMain.handle('delete-scan-profile', async (_, id: string) => {
+    scanProfileStore.remove(id);
+  });
+
+  // Workstation settings
+  ipcMain.handle('get-settings', async () => {
+    return settingsStore.get();
+  });
+
+  ipcMain.handle('update-settings', async (_, changes: Partial<AppSettings>) => {
+    try {
+      const settings = settingsStore.update(changes);
+      // Reconnect to the new relays straight away
+      releaseService.setRelayUrls(settings.relayUrls);
+      return { success: true, settings };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
   });
 
   // SSH connection
-  ipcMain.handle('connect-ssh', async (_, ip: string, password?: string) => {
-    return await sshConnector.connect(ip, password);
+  ipcMain.handle('connect-ssh', async (_, ip: string, credentials?: string | SshCredentials) => {
+    return await sshConnector.connect(ip, credentials);
+  });
+
+  // Forget a router's pinned host key after the user confirmed it was legitimately changed
+  ipcMain.handle('forget-host-key', async (_, ip: string) => {
+    sshConnector.forgetHostKey(ip);
+  });
+
+  // Let the user pick a private key file for key-based authentication
+  ipcMain.handle('select-ssh-key', async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const options: Electron.OpenDialogOptions = {
+      title: 'Select SSH private key',
+      defaultPath: path.join(app.getPath('home'), '.ssh'),
+      properties: ['openFile', 'showHiddenFiles'],
+    };
+    const selection = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+    
+    if (selection.canceled || selection.filePaths.length === 0) {
+      return null;
+    }
+    return selection.filePaths[0];
   });
 
   // Check and enrich a manually entered device
@@ -98,8 +239,74 @@ function setupIpcHandlers(
     return await networkScanner.checkManualDevice(ip);
   });
 
-  // Installation
-  ipcMain.handle('install-tollgate', async (_, ip: string, releaseEvent: string) => {
-    return await installerEngine.install(ip, releaseEvent);
+  // Installation queue
+  ipcMain.handle('enqueue-install', async (
+    _,
+    ip: string,
+    releaseEvent: string,
+    label?: { releaseId?: string; releaseVersion?: string },
+    options?: InstallOptions
+  ) => {
+    try {
+      return { success: true, job: installQueue.enqueue(ip, releaseEvent, label, options) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  ipcMain.handle('cancel-install', async (_, ip: string) => {
+    try {
+      return { success: true, job: installQueue.cancel(ip) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  ipcMain.handle('list-install-jobs', async () => {
+    return installQueue.listJobs();
+  });
+
+  ipcMain.handle('clear-finished-installs', async () => {
+    installQueue.clearFinished();
+    return installQueue.listJobs();
+  });
+
+  ipcMain.handle('get-install-concurrency', async () => {
+    return installQueue.getConcurrency();
+  });
+
+  ipcMain.handle('set-install-concurrency', async (_, concurrency: number) => {
+    installQueue.setConcurrency(concurrency);
+    return installQueue.getConcurrency();
+  });
+
+  // Offline firmware library
+  ipcMain.handle('import-offline-library', async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const options: Electron.OpenDialogOptions = {
+      title: 'Select folder with TollGate OS releases',
+      properties: ['openDirectory'],
+    };
+    const selection = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+    
+    if (selection.canceled || selection.filePaths.length === 0) {
+      return null;
+    }
+    return await offlineLibrary.importFolder(selection.filePaths[0]);
   });
-}
\ No newline at end of file
+
+  ipcMain.handle('list-offline-releases', async () => {
+    return offlineLibrary.listReleases();
+  });
+
+  // Nostr releases
+  ipcMain.handle('list-releases', async () => {
+    return await releaseService.listReleases();
+  });
+
+  ipcMain.handle('get-relay-health', async () => {
+    return releaseService.getRelayHealth();
+  });
+}
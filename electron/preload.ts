@@ -1,30 +1,142 @@
-import { contextBridge, ipcRenderer } from 'electron';
-import { ScanResult } from '../shared/types';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import { NostrEvent } from '@nostr-dev-kit/ndk';
+import { ScanResult, ScanEvent, ScanProfile, InstallJob, InstallOptions, OfflineImportResult, SshCredentials, AppSettings, RelayHealth } from '../shared/types';
 
 // Expose protected IPC methods to the renderer process
 contextBridge.exposeInMainWorld('electron', {
   // Network scanning
-  scanNetwork: async (): Promise<ScanResult[]> => {
-    return await ipcRenderer.invoke('scan-network');
+  scanNetwork: async (profileId?: string): Promise<ScanResult[]> => {
+    return await ipcRenderer.invoke('scan-network', profileId);
+  },
+
+  // Subscribe to live scan progress and results; returns a function that unsubscribes
+  onScanEvent: (callback: (event: ScanEvent) => void): (() => void) => {
+    const listener = (_: IpcRendererEvent, scanEvent: ScanEvent) => callback(scanEvent);
+    ipcRenderer.on('scan-event', listener);
+    return () => {
+      ipcRenderer.removeListener('scan-event', listener);
+    };
+  },
+
+  // Scan profiles
+  listScanProfiles: async (): Promise<ScanProfile[]> => {
+    return await ipcRenderer.invoke('list-scan-profiles');
+  },
+
+  saveScanProfile: async (profile: ScanProfile): Promise<{ success: boolean; profile?: ScanProfile; error?: string }> => {
+    return await ipcRenderer.invoke('save-scan-profile', profile);
+  },
+
+  deleteScanProfile: async (id: string): Promise<void> => {
+    return await ipcRenderer.invoke('delete-scan-profile', id);
+  },
+
+  // Workstation settings
+  getSettings: async (): Promise<AppSettings> => {
+    return await ipcRenderer.invoke('get-settings');
+  },
+
+  updateSettings: async (changes: Partial<AppSettings>): Promise<{ success: boolean; settings?: AppSettings; error?: string }> => {
+    return await ipcRenderer.invoke('update-settings', changes);
   },
 
   // SSH connection
-  connectSsh: async (ip: string, password?: string): Promise<{ success: boolean; error?: string }> => {
-    return await ipcRenderer.invoke('connect-ssh', ip, password);
+  // Accepts a password or key/agent credentials; they are remembered for later reconnects
+  connectSsh: async (
+    ip: string,
+    credentials?: string | SshCredentials
+  ): Promise<{ success: boolean; error?: string; hostKeyChanged?: boolean }> => {
+    return await ipcRenderer.invoke('connect-ssh', ip, credentials);
+  },
+
+  forgetHostKey: async (ip: string): Promise<void> => {
+    return await ipcRenderer.invoke('forget-host-key', ip);
+  },
+
+  // Opens a file picker for an SSH private key; resolves to null when cancelled
+  selectSshKey: async (): Promise<string | null> => {
+    return await ipcRenderer.invoke('select-ssh-key');
+  },
+
+  // Installation queue
+  enqueueInstall: async (
+    ip: string,
+    releaseEvent: string,
+    label?: { releaseId?: string; releaseVersion?: string },
+    options?: InstallOptions
+  ): Promise<{ success: boolean; job?: InstallJob; error?: string }> => {
+    return await ipcRenderer.invoke('enqueue-install', ip, releaseEvent, label, options);
+  },
+
+  // Refused once sysupgrade has started on the router
+  cancelInstall: async (ip: string): Promise<{ success: boolean; job?: InstallJob; error?: string }> => {
+    return await ipcRenderer.invoke('cancel-install', ip);
   },
 
-  // Installation
-  installTollgate: async (ip: string, releaseEvent: string): Promise<{
-    success: boolean;
-    step: string;
-    progress: number;
-    error?: string;
-  }> => {
-    return await ipcRenderer.invoke('install-tollgate', ip, releaseEvent);
+  listInstallJobs: async (): Promise<InstallJob[]> => {
+    return await ipcRenderer.invoke('list-install-jobs');
+  },
+
+  clearFinishedInstalls: async (): Promise<InstallJob[]> => {
+    return await ipcRenderer.invoke('clear-finished-installs');
+  },
+
+  getInstallConcurrency: async (): Promise<number> => {
+    return await ipcRenderer.invoke('get-install-concurrency');
+  },
+
+  setInstallConcurrency: async (concurrency: number): Promise<number> => {
+    return await ipcRenderer.invoke('set-install-concurrency', concurrency);
+  },
+
+  // Subscribe to install job updates; returns a function that unsubscribes
+  onInstallJobUpdated: (callback: (job: InstallJob) => void): (() => void) => {
+    const listener = (_: IpcRendererEvent, job: InstallJob) => callback(job);
+    ipcRenderer.on('install-job-updated', listener);
+    return () => {
+      ipcRenderer.removeListener('install-job-updated', listener);
+    };
   },
 
   // Check device
   checkDevice: async (ip: string): Promise<ScanResult | null> => {
     return await ipcRenderer.invoke('check-device', ip);
   },
+
+  // Offline firmware library
+  importOfflineLibrary: async (): Promise<OfflineImportResult | null> => {
+    return await ipcRenderer.invoke('import-offline-library');
+  },
+
+  listOfflineReleases: async (): Promise<NostrEvent[]> => {
+    return await ipcRenderer.invoke('list-offline-releases');
+  },
+
+  // Nostr releases, fetched and verified by the main process
+  // Resolves once the relays answered when no releases are cached yet
+  listReleases: async (): Promise<NostrEvent[]> => {
+    return await ipcRenderer.invoke('list-releases');
+  },
+
+  // Subscribe to release list changes; returns a function that unsubscribes
+  onReleasesChanged: (callback: (releases: NostrEvent[]) => void): (() => void) => {
+    const listener = (_: IpcRendererEvent, releases: NostrEvent[]) => callback(releases);
+    ipcRenderer.on('releases-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('releases-changed', listener);
+    };
+  },
+
+  getRelayHealth: async (): Promise<RelayHealth[]> => {
+    return await ipcRenderer.invoke('get-relay-health');
+  },
+
+  // Subscribe to relay connection changes; returns a function that unsubscribes
+  onRelayHealthChanged: (callback: (health: RelayHealth[]) => void): (() => void) => {
+    const listener = (_: IpcRendererEvent, health: RelayHealth[]) => callback(health);
+    ipcRenderer.on('relay-health-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('relay-health-changed', listener);
+    };
+  },
 });
\ No newline at end of file
@@ -0,0 +1,298 @@
+import * as http from 'http';
+import * as net from 'net';
+import { SshConnector } from './ssh-connector';
+import { DeviceFingerprint, FirmwareFamily, RouterInfo, TollgateReleaseInfo } from '../../shared/types';
+import { isInstallableDistribution } from '../../shared/release-compatibility';
+
+interface HttpBanner {
+  server?: string;
+  title?: string;
+  body: string;
+}
+
+interface FirmwareMarkers {
+  tollgate: boolean;
+  glVersion?: string;
+}
+
+interface HttpSignature {
+  family: FirmwareFamily;
+  vendor?: string;
+  product?: string;
+  pattern: RegExp;
+}
+
+// Checked in order against the Server header, page title and start of the page body
+const HTTP_SIGNATURES: HttpSignature[] = [
+  { family: 'tollgate', vendor: 'TollGate', pattern: /tollgate/i },
+  { family: 'glinet-stock', vendor: 'GL.iNet', pattern: /GL\.iNet|gl-ui|glinet/i },
+  { family: 'tplink-stock', vendor: 'TP-Link', pattern: /TP-?LINK|tplinkwifi|tplinklogin/i },
+  { family: 'ubiquiti-stock', vendor: 'Ubiquiti', product: 'EdgeOS', pattern: /EdgeOS|EdgeRouter/i },
+  { family: 'ubiquiti-stock', vendor: 'Ubiquiti', product: 'UniFi', pattern: /UniFi/i },
+  { family: 'ubiquiti-stock', vendor: 'Ubiquiti', product: 'airOS', pattern: /airOS|ubnt/i },
+  { family: 'openwrt', vendor: 'OpenWrt', pattern: /LuCI|cgi-bin\/luci|OpenWrt/i }
+];
+
+// Largest part of a web page read when looking for a signature
+const MAX_HTTP_BODY_BYTES = 64 * 1024;
+
+/**
+ * Identifies the firmware a router runs before anything is installed
+ * Combines the SSH banner, the web interface's banner and title, and (when we can log in)
+ * ubus and marker files, so stock vendor firmware gets precise first-stage instructions
+ * and routers already running TollGate OS are recognised
+ */
+export class DeviceFingerprinter {
+  private readonly sshConnector: SshConnector;
+  private readonly timeoutMs: number;
+
+  /**
+   * @param config.timeoutMs Timeout for reading each banner
+   */
+  constructor(config?: { sshConnector?: SshConnector; timeoutMs?: number }) {
+    this.sshConnector = config?.sshConnector || new SshConnector();
+    this.timeoutMs = config?.timeoutMs || 2000;
+  }
+
+  /**
+   * Fingerprints a router
+   * @param options.sshPort Port SSH answered on, or undefined when SSH is closed
+   * @param options.routerInfo Output of `ubus call system board` when we could log in
+   * @param options.tollgateRelease The router's TollGate OS release file, if it has one
+   */
+  public async fingerprint(
+    ip: string,
+    options: { sshPort?: number; routerInfo?: RouterInfo; tollgateRelease?: TollgateReleaseInfo } = {}
+  ): Promise<DeviceFingerprint> {
+    const [sshBanner, httpBanner, markers] = await Promise.all([
+      options.sshPort ? this.readSshBanner(ip, options.sshPort) : Promise.resolve(undefined),
+      this.readHttpBanner(ip),
+      options.routerInfo ? this.readFirmwareMarkers(ip) : Promise.resolve(undefined)
+    ]);
+
+    const evidence: string[] = [];
+    if (sshBanner) evidence.push(`SSH banner: ${sshBanner}`);
+    if (httpBanner?.server) evidence.push(`HTTP server: ${httpBanner.server}`);
+    if (httpBanner?.title) evidence.push(`Web page title: ${httpBanner.title}`);
+    if (options.routerInfo?.release) {
+      evidence.push(`ubus: ${options.routerInfo.release.distribution} ${options.routerInfo.release.version}`);
+    }
+    if (options.tollgateRelease) evidence.push(`TollGate OS release file: ${options.tollgateRelease.version}`);
+    if (markers?.tollgate) evidence.push('/etc/tollgate present');
+    if (markers?.glVersion) evidence.push(`/etc/glversion: ${markers.glVersion}`);
+
+    const fingerprint = this.classify(ip, options, { sshBanner, httpBanner, markers }, evidence);
+    console.log(`Fingerprint for ${ip}: ${fingerprint.description} (${evidence.join('; ') || 'no evidence'})`);
+    return fingerprint;
+  }
+
+  private classify(
+    ip: string,
+    options: { sshPort?: number; routerInfo?: RouterInfo; tollgateRelease?: TollgateReleaseInfo },
+    observed: { sshBanner?: string; httpBanner?: HttpBanner; markers?: FirmwareMarkers },
+    evidence: string[]
+  ): DeviceFingerprint {
+    const { routerInfo, tollgateRelease } = options;
+    const { sshBanner, httpBanner, markers } = observed;
+
+    // Logged in and ubus answered: OpenWrt or a derivative, installable when the installer engine will flash it
+    if (routerInfo) {
+      const release = routerInfo.release;
+      const version = release ? `${release.distribution} ${release.version}` : 'OpenWrt';
+      const installable = isInstallableDistribution(release?.distribution);
+      const firstStageStep = installable
+        ? undefined
+        : `The router reports ${release?.distribution || 'no distribution'}; flash OpenWrt for this model first ` +
+          '(see openwrt.org/toh), then scan again.';
+      if (tollgateRelease || markers?.tollgate || /tollgate/i.test(release?.distribution || '')) {
+        const description = tollgateRelease
+          ? `Already running TollGate OS ${tollgateRelease.version}`
+          : `Already running TollGate OS (${version})`;
+        return { family: 'tollgate', vendor: 'TollGate', description, installable, firstStageStep, evidence };
+      }
+      if (markers?.glVersion) {
+        return {
+          family: 'glinet-stock',
+          vendor: 'GL.iNet',
+          description: `GL.iNet stock firmware ${markers.glVersion} (OpenWrt based)`,
+          installable,
+          firstStageStep,
+          evidence
+        };
+      }
+      return { family: 'openwrt', vendor: release?.distribution, description: version, installable, firstStageStep, evidence };
+    }
+
+    const haystack = [httpBanner?.server, httpBanner?.title, httpBanner?.body].filter(Boolean).join('\n');
+    const signature = HTTP_SIGNATURES.find(candidate => candidate.pattern.test(haystack));
+    const webUi = ip.includes(':') ? `http://[${ip}]` : `http://${ip}`;
+    const sshHint = options.sshPort ? 'enter it when asked for the root password' : 'make sure SSH is enabled, then scan again';
+
+    switch (signature?.family) {
+      case 'tollgate':
+        return {
+          family: 'tollgate',
+          vendor: 'TollGate',
+          description: 'Already running TollGate OS',
+          installable: !!options.sshPort,
+          firstStageStep: options.sshPort ? undefined : 'Enable SSH on the router, then scan again.',
+          evidence
+        };
+      case 'glinet-stock':
+        return {
+          family: 'glinet-stock',
+          vendor: 'GL.iNet',
+          description: 'GL.iNet stock firmware (OpenWrt based)',
+          installable: false,
+          firstStageStep: `Open ${webUi} and finish the GL.iNet setup wizard to set an admin password. ` +
+            `That password is also the root SSH password; ${sshHint}.`,
+          evidence
+        };
+      case 'tplink-stock':
+        return {
+          family: 'tplink-stock',
+          vendor: 'TP-Link',
+          description: 'TP-Link stock firmware',
+          installable: false,
+          firstStageStep: 'Download the OpenWrt factory image for this model from firmware-selector.openwrt.org ' +
+            `and upload it under Firmware Upgrade in the TP-Link web interface at ${webUi}, then scan again.`,
+          evidence
+        };
+      case 'ubiquiti-stock':
+        return {
+          family: 'ubiquiti-stock',
+          vendor: 'Ubiquiti',
+          description: `Ubiquiti ${signature.product} stock firmware`,
+          installable: false,
+          firstStageStep: this.describeUbiquitiStep(signature.product, webUi),
+          evidence
+        };
+      case 'openwrt':
+        return {
+          family: 'openwrt',
+          vendor: 'OpenWrt',
+          description: 'OpenWrt (LuCI web interface)',
+          installable: !!options.sshPort,
+          firstStageStep: options.sshPort
+            ? undefined
+            : `Enable SSH under System > Administration in LuCI at ${webUi}, then scan again.`,
+          evidence
+        };
+    }
+
+    // Without ubus or a recognised web interface, the SSH banner is all we can show
+    const description = sshBanner
+      ? `Unknown firmware (${sshBanner.replace(/^SSH-2\.0-/, '')})`
+      : 'Unknown firmware';
+    return {
+      family: 'unknown',
+      description,
+      installable: false,
+      firstStageStep: options.sshPort
+        ? 'Log in with the root password so the firmware can be identified. If the router is not running OpenWrt, ' +
+          'flash OpenWrt for this model first (see openwrt.org/toh), then scan again.'
+        : 'Flash OpenWrt for this model first (see openwrt.org/toh) and make sure SSH is enabled, then scan again.',
+      evidence
+    };
+  }
+
+  private describeUbiquitiStep(product: string | undefined, webUi: string): string {
+    if (product === 'EdgeOS') {
+      return 'Copy the OpenWrt sysupgrade tarball for this model to the router, run `add system image <file>` ' +
+        'in the EdgeOS CLI and reboot, then scan again.';
+    }
+    if (product === 'UniFi') {
+      return 'Follow the OpenWrt wiki install steps for this UniFi model (SSH in as ubnt and write the OpenWrt ' +
+        'image to the kernel partition), then scan again.';
+    }
+    return `Upload the OpenWrt factory image for this model under System > Upload Firmware at ${webUi} ` +
+      '(older airOS versions need TFTP recovery instead), then scan again.';
+  }
+
+  /**
+   * Reads the identification line an SSH server sends on connect, e.g. "SSH-2.0-dropbear_2022.82"
+   */
+  private readSshBanner(ip: string, port: number): Promise<string | undefined> {
+    return new Promise((resolve) => {
+      const socket = new net.Socket();
+      let received = '';
+      const finish = (banner?: string) => {
+        socket.destroy();
+        resolve(banner);
+      };
+
+      socket.setTimeout(this.timeoutMs);
+      socket.on('data', (data) => {
+        received += data.toString('latin1');
+        const line = received.split(/\r?\n/).find(candidate => candidate.startsWith('SSH-'));
+        if (line) {
+          finish(line.trim());
+        } else if (received.length > 4096) {
+          finish();
+        }
+      });
+      socket.on('timeout', () => finish());
+      socket.on('error', () => finish());
+      socket.on('close', () => finish());
+      socket.connect(port, ip);
+    });
+  }
+
+  /**
+   * Fetches the router's web interface start page and extracts its banner and title
+   */
+  private readHttpBanner(ip: string): Promise<HttpBanner | undefined> {
+    return new Promise((resolve) => {
+      let settled = false;
+      const finish = (banner?: HttpBanner) => {
+        if (settled) return;
+        settled = true;
+        request.destroy();
+        resolve(banner);
+      };
+
+      const request = http.get({ host: ip, port: 80, path: '/', timeout: this.timeoutMs }, (response) => {
+        const chunks: Buffer[] = [];
+        let length = 0;
+        const done = () => {
+          const body = Buffer.concat(chunks).toString('utf-8');
+          const title = body.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1].trim();
+          // Redirect targets often name the vendor UI, e.g. "/webpages/login.html" or "/cgi-bin/luci"
+          const location = response.headers.location ? `\nLocation: ${response.headers.location}` : '';
+          const server = typeof response.headers.server === 'string' ? response.headers.server : undefined;
+          finish({ server, title: title || undefined, body: body + location });
+        };
+
+        response.on('data', (chunk: Buffer) => {
+          chunks.push(chunk);
+          length += chunk.length;
+          if (length >= MAX_HTTP_BODY_BYTES) done();
+        });
+        response.on('end', done);
+        response.on('error', () => finish());
+      });
+
+      request.on('timeout', () => finish());
+      request.on('error', () => finish());
+    });
+  }
+
+  /**
+   * Looks for files that identify TollGate OS and GL.iNet stock firmware over SSH
+   */
+  private async readFirmwareMarkers(ip: string): Promise<FirmwareMarkers | undefined> {
+    try {
+      const output = await this.sshConnector.executeRemoteCommand(
+        ip,
+        '[ -d /etc/tollgate ] && echo tollgate; [ -f /etc/glversion ] && echo "glversion=$(cat /etc/glversion)"; true'
+      );
+      return {
+        tollgate: /^tollgate$/m.test(output),
+        glVersion: output.match(/^glversion=(.+)$/m)?.[1].trim() || undefined
+      };
+    } catch (error) {
+      console.error(`Error reading firmware markers from ${ip}:`, error);
+      return undefined;
+    }
+  }
+}
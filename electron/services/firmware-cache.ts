@@ -0,0 +1,404 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import { pipeline } from 'stream';
+import { tmpdir } from 'os';
+import axios from 'axios';
+
+export interface FirmwareCacheEntry {
+  sha256: string;
+  size: number;
+  url?: string;
+  lastUsed: number;
+  // Pinned images (e.g. imported from an offline library) are never evicted
+  pinned?: boolean;
+}
+
+export interface CachedFirmware {
+  path: string;
+  sha256: string;
+  fromCache: boolean;
+}
+
+type ProgressListener = (received: number, total?: number) => void;
+
+// A download shared by every fetch of the same image that arrives while it runs
+interface InFlightDownload {
+  result: Promise<CachedFirmware>;
+  progressListeners: Set<ProgressListener>;
+  controller: AbortController;
+  // Fetches still waiting for the download; it is aborted once all of them gave up
+  waiting: number;
+}
+
+/**
+ * Content-addressed store for firmware images, keyed by their SHA-256 (NIP-94 `x` tag)
+ * Interrupted downloads are resumed with HTTP range requests and the least recently
+ * used images are evicted once the cache grows past its size limit
+ */
+export class FirmwareCache {
+  private readonly cacheDir: string;
+  private readonly maxSizeBytes: number;
+  private readonly indexPath: string;
+  private readonly streamPipeline = promisify(pipeline);
+  private entries: Map<string, FirmwareCacheEntry> = new Map();
+  private inFlight: Map<string, InFlightDownload> = new Map();
+  // Number of installs using each image; images in use are never evicted
+  private inUse: Map<string, number> = new Map();
+
+  constructor(config?: { cacheDir?: string; maxSizeBytes?: number }) {
+    this.cacheDir = config?.cacheDir || path.join(tmpdir(), 'tollgate-firmware');
+    this.maxSizeBytes = config?.maxSizeBytes || 1024 * 1024 * 1024; // Default limit: 1 GiB
+    this.indexPath = path.join(this.cacheDir, 'index.json');
+
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+    this.loadIndex();
+  }
+
+  /**
+   * Returns the local path of a cached image, or null when it is not cached
+   */
+  public getPath(sha256: string): string | null {
+    const key = sha256.toLowerCase();
+    const entry = this.entries.get(key);
+    const filePath = this.blobPath(key);
+
+    if (!entry || !fs.existsSync(filePath)) {
+      if (entry) {
+        this.entries.delete(key);
+        this.saveIndex();
+      }
+      return null;
+    }
+
+    entry.lastUsed = Date.now();
+    this.saveIndex();
+    return filePath;
+  }
+
+  /**
+   * Keeps an image from being evicted until release is called
+   * Installs hold their image from before it is fetched until the router has been flashed
+   */
+  public acquire(sha256: string): void {
+    const key = sha256.toLowerCase();
+    this.inUse.set(key, (this.inUse.get(key) || 0) + 1);
+  }
+
+  /**
+   * Releases an image held with acquire
+   */
+  public release(sha256: string): void {
+    const key = sha256.toLowerCase();
+    const refs = (this.inUse.get(key) || 0) - 1;
+    if (refs > 0) {
+      this.inUse.set(key, refs);
+    } else {
+      this.inUse.delete(key);
+    }
+  }
+
+  /**
+   * Whether the image with the given hash is being downloaded right now
+   */
+  public isDownloading(sha256: string): boolean {
+    return this.inFlight.has(sha256.toLowerCase());
+  }
+
+  /**
+   * Returns the image with the given hash, downloading it only when it is not already cached
+   * The returned sha256 is always computed from the bytes on disk; the image is only
+   * committed to the cache when it matches the expected hash
+   * Concurrent fetches of the same image share a single download
+   * @param url URL to download from on a cache miss
+   * @param sha256 Expected SHA-256 of the image
+   * @param onBytes Called as data arrives with the bytes received so far and the expected total
+   * @param signal Stops waiting for the download, which is aborted once no other fetch waits for it;
+   * the partial file is kept so a later fetch can resume it
+   */
+  public async fetch(
+    url: string | undefined,
+    sha256: string,
+    onBytes?: ProgressListener,
+    signal?: AbortSignal
+  ): Promise<CachedFirmware> {
+    const key = sha256.toLowerCase();
+    const cachedPath = this.getPath(key);
+
+    if (cachedPath) {
+      console.log(`Firmware ${key} found in cache at ${cachedPath}`);
+      return { path: cachedPath, sha256: await this.hashFile(cachedPath), fromCache: true };
+    }
+
+    if (!url) {
+      throw new Error(`Firmware ${key} is not available locally and has no download URL`);
+    }
+
+    let download = this.inFlight.get(key);
+    if (download) {
+      console.log(`Firmware ${key} is already being downloaded, waiting for it`);
+    } else {
+      download = this.startDownload(url, key);
+    }
+    return this.waitForDownload(download, onBytes, signal);
+  }
+
+  /**
+   * Copies a local image into the cache after checking its hash
+   * @param sourcePath Path of the image to import
+   * @param sha256 Expected SHA-256 of the image
+   * @param pinned Whether the image should be kept regardless of the size limit
+   * @returns The SHA-256 computed from the source file; the image is only imported when it matches
+   */
+  public async importFile(sourcePath: string, sha256: string, pinned: boolean = false): Promise<string> {
+    const key = sha256.toLowerCase();
+    const actualHash = await this.hashFile(sourcePath);
+    if (actualHash !== key) {
+      return actualHash;
+    }
+
+    const blobPath = this.blobPath(key);
+    if (!fs.existsSync(blobPath)) {
+      fs.copyFileSync(sourcePath, blobPath);
+    }
+
+    const existing = this.entries.get(key);
+    this.entries.set(key, {
+      sha256: key,
+      size: fs.statSync(blobPath).size,
+      url: existing?.url,
+      lastUsed: Date.now(),
+      pinned: pinned || existing?.pinned
+    });
+    this.evict(key);
+    this.saveIndex();
+
+    return actualHash;
+  }
+
+  /**
+   * Removes an image from the cache
+   */
+  public remove(sha256: string): void {
+    const key = sha256.toLowerCase();
+    for (const filePath of [this.blobPath(key), this.partialPath(key)]) {
+      try {
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
+      } catch (error) {
+        console.warn(`Failed to remove cached firmware ${filePath}:`, error);
+      }
+    }
+    this.entries.delete(key);
+    this.saveIndex();
+  }
+
+  /**
+   * Downloads an image into its partial file and commits it to the cache when the hash matches
+   */
+  private startDownload(url: string, key: string): InFlightDownload {
+    const progressListeners = new Set<ProgressListener>();
+    const controller = new AbortController();
+
+    const run = async (): Promise<CachedFirmware> => {
+      const partialPath = this.partialPath(key);
+      const actualHash = await this.download(url, partialPath, (received, total) => {
+        progressListeners.forEach(listener => listener(received, total));
+      }, controller.signal);
+
+      if (actualHash !== key) {
+        // Leave the caller to discard the corrupted file; never commit it to the cache
+        return { path: partialPath, sha256: actualHash, fromCache: false };
+      }
+
+      const blobPath = this.blobPath(key);
+      fs.renameSync(partialPath, blobPath);
+      this.entries.set(key, {
+        sha256: key,
+        size: fs.statSync(blobPath).size,
+        url,
+        lastUsed: Date.now()
+      });
+      this.evict(key);
+      this.saveIndex();
+
+      return { path: blobPath, sha256: actualHash, fromCache: false };
+    };
+
+    const download: InFlightDownload = {
+      result: run().finally(() => this.inFlight.delete(key)),
+      progressListeners,
+      controller,
+      waiting: 0
+    };
+    this.inFlight.set(key, download);
+    return download;
+  }
+
+  /**
+   * Waits for a shared download, reporting its progress, until it finishes or the signal aborts
+   */
+  private waitForDownload(
+    download: InFlightDownload,
+    onBytes?: ProgressListener,
+    signal?: AbortSignal
+  ): Promise<CachedFirmware> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Download cancelled'));
+    }
+
+    download.waiting++;
+    if (onBytes) download.progressListeners.add(onBytes);
+
+    return new Promise<CachedFirmware>((resolve, reject) => {
+      const onAbort = () => {
+        leave();
+        reject(new Error('Download cancelled'));
+      };
+      const leave = () => {
+        signal?.removeEventListener('abort', onAbort);
+        if (onBytes) download.progressListeners.delete(onBytes);
+        download.waiting--;
+        if (download.waiting === 0) {
+          download.controller.abort();
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      download.result.then(
+        (result) => {
+          if (signal?.aborted) return;
+          leave();
+          resolve(result);
+        },
+        (error) => {
+          if (signal?.aborted) return;
+          leave();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Downloads a file, resuming from an existing partial download when the server supports ranges
+   * @returns The SHA-256 of the complete file
+   */
+  private async download(
+    url: string,
+    outputPath: string,
+    onBytes?: ProgressListener,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const hash = createHash('sha256');
+    let offset = fs.existsSync(outputPath) ? fs.statSync(outputPath).size : 0;
+
+    const response = await axios({
+      method: 'GET',
+      url,
+      responseType: 'stream',
+      headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+      signal,
+      // A 416 means our partial file is unusable; handle it below instead of throwing
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 416,
+    });
+
+    if (response.status === 416) {
+      response.data.destroy();
+      console.warn(`Server rejected resume of ${url} at byte ${offset}, restarting download`);
+      fs.unlinkSync(outputPath);
+      return this.download(url, outputPath, onBytes, signal);
+    }
+
+    if (response.status === 206 && offset > 0) {
+      console.log(`Resuming download of ${url} at byte ${offset}`);
+      // Hash the bytes we already have so the final digest covers the whole image
+      for await (const chunk of fs.createReadStream(outputPath)) {
+        hash.update(chunk);
+      }
+    } else {
+      if (offset > 0) {
+        console.log(`Server does not support resuming ${url}, restarting download`);
+      }
+      offset = 0;
+    }
+
+    const contentLength = Number(response.headers['content-length']);
+    const total = Number.isFinite(contentLength) && contentLength > 0 ? offset + contentLength : undefined;
+    let received = offset;
+
+    // Hash the image as it streams to disk so we never re-read it
+    response.data.on('data', (chunk: Buffer) => {
+      hash.update(chunk);
+      received += chunk.length;
+      onBytes?.(received, total);
+    });
+
+    await this.streamPipeline(response.data, fs.createWriteStream(outputPath, { flags: offset > 0 ? 'a' : 'w' }));
+
+    const sha256 = hash.digest('hex');
+    console.log(`File downloaded to ${outputPath} (sha256: ${sha256})`);
+    return sha256;
+  }
+
+  /**
+   * Computes the SHA-256 of a file on disk
+   */
+  private async hashFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Evicts least recently used images until the cache fits its size limit
+   * Images held by a running install stay, even if that leaves the cache over its limit for a while
+   * @param keep Hash of an image that must not be evicted
+   */
+  private evict(keep?: string): void {
+    let totalSize = [...this.entries.values()].reduce((sum, entry) => sum + entry.size, 0);
+    const candidates = [...this.entries.values()]
+      .filter(entry => entry.sha256 !== keep && !entry.pinned && !this.inUse.has(entry.sha256))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    for (const entry of candidates) {
+      if (totalSize <= this.maxSizeBytes) break;
+      console.log(`Evicting firmware ${entry.sha256} from cache (${entry.size} bytes)`);
+      this.remove(entry.sha256);
+      totalSize -= entry.size;
+    }
+  }
+
+  private blobPath(sha256: string): string {
+    return path.join(this.cacheDir, `${sha256}.bin`);
+  }
+
+  private partialPath(sha256: string): string {
+    return path.join(this.cacheDir, `${sha256}.partial`);
+  }
+
+  private loadIndex(): void {
+    try {
+      if (!fs.existsSync(this.indexPath)) return;
+      const entries: FirmwareCacheEntry[] = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'));
+      this.entries = new Map(entries.map(entry => [entry.sha256, entry]));
+    } catch (error) {
+      console.error('Error reading firmware cache index, starting with an empty cache:', error);
+      this.entries = new Map();
+    }
+  }
+
+  private saveIndex(): void {
+    try {
+      fs.writeFileSync(this.indexPath, JSON.stringify([...this.entries.values()], null, 2));
+    } catch (error) {
+      console.error('Error writing firmware cache index:', error);
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import * as net from 'net';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execPromise = promisify(exec);
+
+interface HostKeyRecord {
+  fingerprint: string;
+  mac?: string;
+  board?: string;
+  ips: string[];
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export type HostKeyStatus = 'new' | 'match' | 'changed' | 'repinned';
+
+export interface HostKeyCheck {
+  status: HostKeyStatus;
+  fingerprint: string;
+  previousFingerprint?: string;
+  // Human-readable description of the device, e.g. "glinet,gl-mt3000 (94:83:c4:00:11:22)"
+  device: string;
+}
+
+/**
+ * Trust-on-first-use database of router SSH host keys
+ * Routers are identified by their MAC address when it can be read from the ARP table,
+ * otherwise by IP. Another MAC with another key on a pinned IP is reported as a change:
+ * it may be a spoofed ARP reply, so a new router on a reused address needs the same
+ * explicit confirmation as a new key. A flash legitimately regenerates the key; callers announce that
+ * with expectKeyChange so the new key is pinned instead of rejected.
+ */
+export class HostKeyStore {
+  private readonly storePath?: string;
+  private records: HostKeyRecord[] = [];
+  private expectedChanges: Set<string> = new Set();
+
+  /**
+   * @param config.storePath JSON file to persist pinned keys in; keys are kept in memory only when omitted
+   */
+  constructor(config?: { storePath?: string }) {
+    this.storePath = config?.storePath;
+    this.load();
+  }
+
+  /**
+   * Compares the key a router presented with the pinned one, pinning it on first use
+   * @param ip Address the key was received from
+   * @param key Raw host key as passed to the ssh2 host verifier
+   */
+  public async check(ip: string, key: Buffer): Promise<HostKeyCheck> {
+    const fingerprint = HostKeyStore.fingerprint(key);
+    const mac = await this.lookupMac(ip);
+    let record = this.findRecord(ip, mac);
+    const now = Date.now();
+
+    // An unknown MAC answering on an address pinned to another router may be ARP spoofing, or a new
+    // router on a reused address; either way the user has to confirm the new key first
+    const ipRecord = !record && mac ? this.findRecord(ip) : undefined;
+    if (ipRecord && ipRecord.fingerprint === fingerprint) {
+      // Same key from a new MAC: the same router, seen through another interface or adapter
+      record = ipRecord;
+    } else if (ipRecord && !this.expectedChanges.has(ip)) {
+      const device = this.describe({ ...ipRecord, mac }, ip);
+      console.error(
+        `WARNING: ${ip} IS NOW ANSWERED BY ANOTHER DEVICE (${mac}, was ${ipRecord.mac || 'unknown'})! ` +
+        `Pinned ${ipRecord.fingerprint}, received ${fingerprint}. Someone may be impersonating the router.`
+      );
+      return { status: 'changed', fingerprint, previousFingerprint: ipRecord.fingerprint, device };
+    }
+
+    if (!record) {
+      this.releaseIp(ip);
+      const created: HostKeyRecord = { fingerprint, mac, ips: [ip], firstSeen: now, lastSeen: now };
+      this.records.push(created);
+      this.save();
+      if (ipRecord) {
+        console.log(`Host key for ${this.describe(created, ip)} changed after flashing, re-pinned ${fingerprint}`);
+        return { status: 'repinned', fingerprint, previousFingerprint: ipRecord.fingerprint, device: this.describe(created, ip) };
+      }
+      console.log(`Pinned new host key for ${this.describe(created, ip)}: ${fingerprint}`);
+      return { status: 'new', fingerprint, device: this.describe(created, ip) };
+    }
+
+    this.releaseIp(ip, record);
+    if (!record.ips.includes(ip)) record.ips.push(ip);
+    if (mac) record.mac = mac;
+    record.lastSeen = now;
+
+    if (record.fingerprint === fingerprint) {
+      this.save();
+      return { status: 'match', fingerprint, device: this.describe(record, ip) };
+    }
+
+    const previousFingerprint = record.fingerprint;
+    if (this.expectedChanges.has(ip)) {
+      record.fingerprint = fingerprint;
+      record.firstSeen = now;
+      this.save();
+      console.log(`Host key for ${this.describe(record, ip)} changed after flashing, re-pinned ${fingerprint}`);
+      return { status: 'repinned', fingerprint, previousFingerprint, device: this.describe(record, ip) };
+    }
+
+    this.save();
+    console.error(
+      `WARNING: HOST KEY FOR ${this.describe(record, ip)} HAS CHANGED! ` +
+      `Pinned ${previousFingerprint}, received ${fingerprint}. Someone may be impersonating the router.`
+    );
+    return { status: 'changed', fingerprint, previousFingerprint, device: this.describe(record, ip) };
+  }
+
+  /**
+   * Accepts the next new key from this IP, e.g. while a freshly flashed router reboots
+   */
+  public expectKeyChange(ip: string): void {
+    this.expectedChanges.add(ip);
+  }
+
+  public clearExpectedKeyChange(ip: string): void {
+    this.expectedChanges.delete(ip);
+  }
+
+  /**
+   * Records the board name of the router at this IP so warnings can name the device
+   */
+  public setBoard(ip: string, board: string): void {
+    const record = this.findRecord(ip);
+    if (record && record.board !== board) {
+      record.board = board;
+      this.save();
+    }
+  }
+
+  /**
+   * Removes the pinned key for the router at this IP so the next connection pins a new one
+   */
+  public forget(ip: string): void {
+    const record = this.findRecord(ip);
+    if (record) {
+      this.records = this.records.filter(candidate => candidate !== record);
+      this.save();
+      console.log(`Forgot host key for ${this.describe(record, ip)}`);
+    }
+  }
+
+  /**
+   * OpenSSH-style SHA256 fingerprint of a raw host key
+   */
+  public static fingerprint(key: Buffer): string {
+    return `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+  }
+
+  private findRecord(ip: string, mac?: string): HostKeyRecord | undefined {
+    if (mac) {
+      // A known MAC is authoritative: a different MAC on the same IP is a different router
+      return this.records.find(record => record.mac === mac) ||
+        this.records.find(record => !record.mac && record.ips.includes(ip));
+    }
+    return this.records
+      .filter(record => record.ips.includes(ip))
+      .sort((a, b) => b.lastSeen - a.lastSeen)[0];
+  }
+
+  /**
+   * Detaches an IP from every record except the given one; addresses move between routers
+   */
+  private releaseIp(ip: string, keep?: HostKeyRecord): void {
+    for (const record of this.records) {
+      if (record !== keep) {
+        record.ips = record.ips.filter(candidate => candidate !== ip);
+      }
+    }
+  }
+
+  private describe(record: HostKeyRecord, ip: string): string {
+    const details = [record.board, record.mac].filter(Boolean).join(', ');
+    return details ? `${ip} (${details})` : ip;
+  }
+
+  /**
+   * Reads the MAC address of a neighbour from the system ARP or IPv6 neighbour table
+   */
+  private async lookupMac(ip: string): Promise<string | undefined> {
+    // The address ends up in a shell command, so only accept well-formed addresses
+    if (!net.isIP(ip)) return undefined;
+    try {
+      let output: string;
+      if (net.isIPv6(ip)) {
+        const [address, zone] = ip.split('%');
+        if (process.platform === 'linux') {
+          output = (await execPromise(`ip -6 neigh show ${address}${zone ? ` dev ${zone}` : ''}`)).stdout;
+        } else if (process.platform === 'darwin') {
+          output = (await execPromise(`ndp -n ${ip}`)).stdout;
+        } else {
+          return undefined;
+        }
+      } else if (process.platform === 'linux' && fs.existsSync('/proc/net/arp')) {
+        output = fs.readFileSync('/proc/net/arp', 'utf-8')
+          .split('\n')
+          .find(line => line.split(/\s+/)[0] === ip) || '';
+      } else {
+        output = (await execPromise(`arp -n ${ip}`)).stdout;
+      }
+
+      const match = output.match(/([0-9a-f]{1,2}[:-]){5}[0-9a-f]{1,2}/i);
+      if (!match || /^(0{1,2}[:-]){5}0{1,2}$/.test(match[0])) return undefined;
+
+      // Normalise "a:b:c..." (macOS) and "aa-bb-..." (Windows) to "aa:bb:..."
+      return match[0].toLowerCase().split(/[:-]/).map(part => part.padStart(2, '0')).join(':');
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private load(): void {
+    if (!this.storePath) return;
+    try {
+      if (!fs.existsSync(this.storePath)) return;
+      this.records = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+    } catch (error) {
+      console.error('Error reading host key store, starting empty:', error);
+      this.records = [];
+    }
+  }
+
+  private save(): void {
+    if (!this.storePath) return;
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+      fs.writeFileSync(this.storePath, JSON.stringify(this.records, null, 2));
+    } catch (error) {
+      console.error('Error writing host key store:', error);
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import { randomUUID } from 'crypto';
+import { InstallerEngine } from './installer-engine';
+import { InstallJob, InstallOptions } from '../../shared/types';
+
+export type InstallJobListener = (job: InstallJob) => void;
+
+/**
+ * Runs installs on several routers at once, up to a configurable concurrency limit
+ * Each job keeps its own step, progress and log so a dashboard can show them side by side
+ * Jobs for the same release run side by side too; the firmware cache gives them a single shared download
+ */
+export class InstallQueue {
+  private readonly installerEngine: InstallerEngine;
+  private readonly maxLogLines: number = 200;
+  private concurrency: number;
+  private jobs: Map<string, InstallJob> = new Map();
+  private releaseData: Map<string, string> = new Map();
+  private installOptions: Map<string, InstallOptions> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private running: number = 0;
+  private listeners: Set<InstallJobListener> = new Set();
+
+  constructor(installerEngine: InstallerEngine, config?: { concurrency?: number }) {
+    this.installerEngine = installerEngine;
+    this.concurrency = Math.max(1, config?.concurrency || 3); // Default: three routers at a time
+  }
+
+  /**
+   * Registers a listener that is called whenever a job changes
+   * @returns A function that removes the listener
+   */
+  public onJobUpdated(listener: InstallJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Adds an install to the queue
+   * A router can only have one queued or running job at a time
+   * @param ip IP address of the router
+   * @param releaseData The serialized Nostr event (including id and signature) to install
+   * @param label Release id and version shown on the dashboard; the engine verifies the event itself
+   * @param options Install choices passed through to the engine
+   */
+  public enqueue(
+    ip: string,
+    releaseData: string,
+    label?: { releaseId?: string; releaseVersion?: string },
+    options?: InstallOptions
+  ): InstallJob {
+    const active = this.listJobs().find(job => job.ip === ip && (job.state === 'queued' || job.state === 'running'));
+    if (active) {
+      throw new Error(`An installation for ${ip} is already ${active.state}`);
+    }
+
+    const job: InstallJob = {
+      id: randomUUID(),
+      ip,
+      releaseId: label?.releaseId,
+      releaseVersion: label?.releaseVersion,
+      state: 'queued',
+      step: 'queued',
+      progress: 0,
+      cancellable: true,
+      logs: [],
+      createdAt: Date.now()
+    };
+
+    this.jobs.set(job.id, job);
+    this.releaseData.set(job.id, releaseData);
+    this.installOptions.set(job.id, options || {});
+    console.log(`Queued installation ${job.id} for ${ip}`);
+    this.notify(job);
+    this.runNext();
+
+    return job;
+  }
+
+  /**
+   * Cancels the queued or running install for a router
+   * Queued jobs are dropped immediately; running jobs are aborted and clean up after themselves
+   * @throws If there is no active job or sysupgrade has already started on the router
+   */
+  public cancel(ip: string): InstallJob {
+    const job = this.listJobs().find(job => job.ip === ip && (job.state === 'queued' || job.state === 'running'));
+    if (!job) {
+      throw new Error(`No active installation for ${ip}`);
+    }
+
+    if (!job.cancellable) {
+      throw new Error(`The firmware is already being written to ${ip}; the installation can no longer be cancelled`);
+    }
+
+    if (job.state === 'queued') {
+      this.releaseData.delete(job.id);
+      this.installOptions.delete(job.id);
+      this.update(job, {
+        state: 'cancelled',
+        step: 'cancelled',
+        cancellable: false,
+        error: 'Installation cancelled',
+        finishedAt: Date.now()
+      }, 'Installation cancelled before it started');
+      return { ...job };
+    }
+
+    console.log(`Cancelling installation ${job.id} for ${ip}`);
+    this.controllers.get(job.id)?.abort();
+    this.update(job, { cancellable: false }, 'Cancelling installation...');
+    return { ...job };
+  }
+
+  /**
+   * Returns all jobs, oldest first
+   */
+  public listJobs(): InstallJob[] {
+    return [...this.jobs.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Removes finished jobs from the list
+   */
+  public clearFinished(): void {
+    for (const job of this.jobs.values()) {
+      if (job.state === 'succeeded' || job.state === 'failed' || job.state === 'cancelled') {
+        this.jobs.delete(job.id);
+      }
+    }
+  }
+
+  public getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Changes how many installs may run at the same time
+   * Running jobs are never interrupted; a lower limit only delays queued ones
+   */
+  public setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.runNext();
+  }
+
+  /**
+   * Starts queued jobs while there is capacity left
+   */
+  private runNext(): void {
+    while (this.running < this.concurrency) {
+      const next = this.listJobs().find(job => job.state === 'queued');
+      if (!next) return;
+      this.run(next);
+    }
+  }
+
+  private async run(job: InstallJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.running++;
+    this.update(job, { state: 'running', step: 'preparing', startedAt: Date.now() });
+
+    try {
+      const releaseData = this.releaseData.get(job.id) || '';
+      const result = await this.installerEngine.install(job.ip, releaseData, (progress) => {
+        const { ip, log, ...details } = progress;
+        this.update(job, details, log);
+      }, controller.signal, this.installOptions.get(job.id));
+
+      if (result.cancelled) {
+        this.update(job, {
+          state: 'cancelled',
+          step: result.step,
+          cancellable: false,
+          error: result.error,
+          finishedAt: Date.now()
+        });
+        return;
+      }
+
+      this.update(job, {
+        state: result.success ? 'succeeded' : 'failed',
+        step: result.step,
+        progress: result.progress,
+        installedVersion: result.installedVersion,
+        cancellable: false,
+        error: result.error,
+        finishedAt: Date.now()
+      }, result.success ? undefined : `Installation failed at step "${result.step}": ${result.error || 'Unknown error'}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.update(job, { state: 'failed', step: 'error', cancellable: false, error: message, finishedAt: Date.now() }, message);
+    } finally {
+      this.releaseData.delete(job.id);
+      this.installOptions.delete(job.id);
+      this.controllers.delete(job.id);
+      this.running--;
+      this.runNext();
+    }
+  }
+
+  private update(job: InstallJob, changes: Partial<InstallJob>, log?: string): void {
+    Object.assign(job, changes);
+    if (log) {
+      job.logs = [...job.logs, log].slice(-this.maxLogLines);
+    }
+    this.notify(job);
+  }
+
+  private notify(job: InstallJob): void {
+    for (const listener of this.listeners) {
+      try {
+        listener({ ...job });
+      } catch (error) {
+        console.warn(`Error notifying install job listener for ${job.ip}:`, error);
+      }
+    }
+  }
+}
@@ -1,88 +1,133 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { SshConnector } from './ssh-connector';
-import axios from 'axios';
-import { createWriteStream } from 'fs';
-import { promisify } from 'util';
-import { pipeline } from 'stream';
 import { tmpdir } from 'os';
-import NDK, { NDKEvent } from '@nostr-dev-kit/ndk';
+import { SshConnector } from './ssh-connector';
+import { ReleaseVerifier } from './release-verifier';
+import { FirmwareCache, CachedFirmware } from './firmware-cache';
+import { InstallProgress, InstallOptions } from '../../shared/types';
+import { isInstallableDistribution, resolveCompatibility } from '../../shared/release-compatibility';
+import { parseReleaseChannel } from '../../shared/release-channel';
+import { compareVersions } from '../../shared/version';
 
 export interface InstallStatus {
   success: boolean;
   step: string;
   progress: number;
   error?: string;
+  cancelled?: boolean;
+  // TollGate OS version the router reports once the install is verified
+  installedVersion?: string;
 }
 
+export type InstallProgressCallback = (progress: InstallProgress) => void;
+
+const REMOTE_FIRMWARE_PATH = '/tmp/firmware-update.bin';
+const REMOTE_BACKUP_PATH = '/tmp/tollgate-settings-backup.tar.gz';
+
+// How long sysupgrade may take to stop the old firmware before the upgrade counts as not started
+const SHUTDOWN_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Free space left in /tmp after the upload; sysupgrade and the running services need RAM too
+const TMP_HEADROOM_BYTES = 4 * 1024 * 1024;
+
+// Settings carried across an upgrade; release.json is excluded because the new image ships its own
+const SETTINGS_FILES_COMMAND = 'find /etc/config /etc/tollgate -type f ! -name release.json 2>/dev/null | sort';
+
+type ProgressReporter = (step: string, progress: number, details?: Partial<InstallProgress>) => void;
+
 export class InstallerEngine {
   private sshConnector: SshConnector;
-  private streamPipeline = promisify(pipeline);
-  private downloadDir: string;
-  
-  constructor() {
-    this.sshConnector = new SshConnector();
-    // Create a dedicated directory for firmware downloads
-    this.downloadDir = path.join(tmpdir(), 'tollgate-firmware');
-    if (!fs.existsSync(this.downloadDir)) {
-      fs.mkdirSync(this.downloadDir, { recursive: true });
-    }
-  }
+  private releaseVerifier: ReleaseVerifier;
+  private firmwareCache: FirmwareCache;
+  private backupDir: string;
   
   /**
-   * Downloads a file from a URL to a local path
-   * @param url URL to download from
-   * @param outputPath Path to save the file
-   * @returns Promise that resolves to the path of the downloaded file
+   * @param config.backupDir Where configuration backups are saved before an upgrade keeping settings
    */
-  private async downloadFile(url: string, outputPath?: string): Promise<string> {
-    console.log(`Downloading file from ${url}`);
-    
-    // Generate a filename if outputPath is not provided
-    if (!outputPath) {
-      const urlParts = url.split('/');
-      const filename = urlParts[urlParts.length - 1];
-      outputPath = path.join(this.downloadDir, filename);
-    }
-    
-    try {
-      // Create output directory if it doesn't exist
-      const outputDir = path.dirname(outputPath);
-      if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true });
-      }
-      
-      // Download the file
-      const response = await axios({
-        method: 'GET',
-        url: url,
-        responseType: 'stream',
-      });
-      
-      await this.streamPipeline(response.data, createWriteStream(outputPath));
-      
-      console.log(`File downloaded to ${outputPath}`);
-      return outputPath;
-    } catch (error) {
-      console.error(`Error downloading file from ${url}:`, error);
-      throw error;
-    }
+  constructor(config?: {
+    sshConnector?: SshConnector;
+    releaseVerifier?: ReleaseVerifier;
+    firmwareCache?: FirmwareCache;
+    backupDir?: string;
+  }) {
+    this.sshConnector = config?.sshConnector || new SshConnector();
+    this.releaseVerifier = config?.releaseVerifier || new ReleaseVerifier();
+    this.firmwareCache = config?.firmwareCache || new FirmwareCache();
+    this.backupDir = config?.backupDir || path.join(tmpdir(), 'tollgate-config-backups');
   }
-
+  
   /**
    * Installs TollGateOS on the router at the specified IP
    * Assumes an SSH connection has already been established
    * @param ip IP address of the router
-   * @param releaseData The serialized Nostr event containing the release information
+   * @param releaseData The serialized Nostr event (including id and signature) containing the release information
+   * @param onProgress Receives step, percentage, byte counts and log lines as the install proceeds
+   * @param signal Cancels the install; honoured at every step up to the moment sysupgrade starts
+   * @param options Install mode and extra work to do as part of the install, such as provisioning an SSH key
    */
-  public async install(ip: string, releaseData: any): Promise<InstallStatus> {
-    // Deserialize the data back to an NDKEvent object
-    const releaseEvent = NDKEvent.deserialize(new NDK(), releaseData);
+  public async install(
+    ip: string,
+    releaseData: string,
+    onProgress?: InstallProgressCallback,
+    signal?: AbortSignal,
+    options?: InstallOptions
+  ): Promise<InstallStatus> {
+    // Keep the router's session open for the whole install, including across the reboot
+    this.sshConnector.acquire(ip);
+    // Firmware images the install holds in the cache so other installs cannot evict them
+    const imagesInUse: string[] = [];
+    try {
+      return await this.runInstall(ip, releaseData, imagesInUse, onProgress, signal, options);
+    } finally {
+      imagesInUse.forEach(sha256 => this.firmwareCache.release(sha256));
+      this.sshConnector.clearExpectedHostKeyChange(ip);
+      this.sshConnector.release(ip);
+    }
+  }
+
+  private async runInstall(
+    ip: string,
+    releaseData: string,
+    imagesInUse: string[],
+    onProgress?: InstallProgressCallback,
+    signal?: AbortSignal,
+    options?: InstallOptions
+  ): Promise<InstallStatus> {
+    const report = this.createReporter(ip, onProgress);
+    const preserveSettings = options?.mode === 'preserve-settings';
+    // Set once the firmware may exist on the router so a cancel knows to remove it
+    let remoteFileWritten = false;
+
+    // Never trust the renderer: check the event id, signature and publisher before anything else
+    const verification = this.releaseVerifier.verify(releaseData);
+    if (!verification.valid || !verification.event) {
+      console.error(`Rejected release event for ${ip}: ${verification.error}`);
+      return {
+        success: false,
+        step: 'signature-check',
+        progress: 0,
+        error: verification.error || 'Release event could not be verified'
+      };
+    }
+    const releaseEvent = verification.event;
+    report('signature-check', 5, { log: `Release ${releaseEvent.id} signature verified` });
+    
+    // Dev builds are untested; the operator has to have said yes to this one explicitly
+    const releaseChannel = parseReleaseChannel(releaseEvent.tags);
+    if (releaseChannel === 'dev' && !options?.confirmDevRelease) {
+      return {
+        success: false,
+        step: 'channel-check',
+        progress: 5,
+        error: 'Release is a dev channel build; it must be confirmed explicitly before it is installed'
+      };
+    }
+    report('channel-check', 5, { log: `Release channel: ${releaseChannel}` });
     
     try {
       // Step 1: Preparation
-      console.log(`Starting installation on router ${ip}`);
-      await this.updateStatus('preparing', 10);
+      console.log(`Starting installation on router ${ip} with release ${releaseEvent.id}`);
+      report('preparing', 10);
       
       // Get router information to determine compatibility
       const routerInfo = await this.sshConnector.getRouterInfo(ip);
@@ -98,21 +143,68 @@ export class InstallerEngine {
       }
       
       // Verify compatibility based on board_name
-      const isOpenwrt = routerInfo.release?.distribution?.toLowerCase() === 'openwrt';
-      if (!isOpenwrt || !routerInfo.board_name) {
+      // Routers already running TollGate OS qualify too; they are the ones upgrades target
+      const distribution = routerInfo.release?.distribution || 'unknown firmware';
+      if (!isInstallableDistribution(routerInfo.release?.distribution) || !routerInfo.board_name) {
         return {
           success: false,
           step: 'compatibility-check',
           progress: 0,
-          error: `Router is not running OpenWrt or missing board info: ${routerInfo.system || 'unknown'}`
+          error: `Router is not running OpenWrt or TollGate OS or missing board info: ${routerInfo.system || distribution}`
         };
       }
       
-      console.log(`Router running OpenWrt: ${routerInfo.board_name}`);
+      report('preparing', 15, { log: `Router running ${distribution}: ${routerInfo.board_name}` });
+      
+      // The release must name this board exactly; sysupgrade -T checks the image itself after the upload
+      const compatibility = resolveCompatibility(releaseEvent.tags, {
+        boardName: routerInfo.board_name,
+        architecture: routerInfo.release?.architecture
+      });
+      if (!compatibility.compatible) {
+        return {
+          success: false,
+          step: 'compatibility-check',
+          progress: 15,
+          error: `${compatibility.reason}, refusing to flash`
+        };
+      }
+      report('compatibility-check', 16, { log: `${compatibility.reason} (matched by ${compatibility.matchedBy} tag)` });
+      
+      // Only TollGate OS settings are known to survive a TollGate OS upgrade
+      if (preserveSettings) {
+        const currentRelease = await this.sshConnector.getTollgateRelease(ip);
+        if (!currentRelease) {
+          return {
+            success: false,
+            step: 'compatibility-check',
+            progress: 16,
+            error: 'Upgrade keeping settings is only available on routers already running TollGate OS; use a clean install'
+          };
+        }
+        report('compatibility-check', 16, { log: `Upgrading from TollGate OS ${currentRelease.version}, keeping settings` });
+      }
+      if (signal?.aborted) return await this.cancelInstall(ip, 'compatibility-check', 16, false, report);
       
       // Step 2: Extract release information
+      // The NIP-94 `x` tag carries the SHA-256 of the published blob
+      const expectedHash = releaseEvent.getMatchingTags('x')?.[0]?.[1]?.toLowerCase();
+      if (!expectedHash || !/^[0-9a-f]{64}$/.test(expectedHash)) {
+        return {
+          success: false,
+          step: 'download-preparation',
+          progress: 15,
+          error: 'Firmware SHA-256 hash (x tag) not found in release information'
+        };
+      }
+      
+      this.firmwareCache.acquire(expectedHash);
+      imagesInUse.push(expectedHash);
+      
+      // Images imported from an offline library are already cached and need no URL
       const firmwareUrl = releaseEvent.getMatchingTags('url')?.[0]?.[1];
-      if (!firmwareUrl) {
+      const isCached = this.firmwareCache.getPath(expectedHash) !== null;
+      if (!firmwareUrl && !isCached) {
         return {
           success: false,
           step: 'download-preparation',
@@ -121,14 +213,32 @@ export class InstallerEngine {
         };
       }
       
-      console.log(`Firmware URL: ${firmwareUrl}`);
+      report('download-preparation', 18, {
+        log: isCached ? `Using locally stored firmware ${expectedHash}` : `Firmware URL: ${firmwareUrl}`
+      });
+      // Another router installing the same release is already fetching the image; share its download
+      if (!isCached && this.firmwareCache.isDownloading(expectedHash)) {
+        report('download-preparation', 18, { log: 'Firmware is already being downloaded for another router, sharing that download' });
+      }
+      if (signal?.aborted) return await this.cancelInstall(ip, 'download-preparation', 18, false, report);
       
       // Step 3: Download the firmware
-      await this.updateStatus('downloading', 20);
-      let localFirmwarePath;
+      report('downloading', 20);
+      let download: CachedFirmware;
       try {
-        localFirmwarePath = await this.downloadFile(firmwareUrl);
+        let lastPercent = -1;
+        download = await this.firmwareCache.fetch(firmwareUrl, expectedHash, (received, total) => {
+          // Only push an update when the download advances by at least a percent
+          const percent = total ? Math.floor((received / total) * 100) : -1;
+          if (total && percent === lastPercent) return;
+          lastPercent = percent;
+          report('downloading', 20 + (total ? Math.round((received / total) * 15) : 0), {
+            bytesDownloaded: received,
+            totalBytes: total
+          });
+        }, signal);
       } catch (downloadError) {
+        if (signal?.aborted) return await this.cancelInstall(ip, 'downloading', 25, false, report);
         return {
           success: false,
           step: 'downloading',
@@ -137,11 +247,79 @@ export class InstallerEngine {
         };
       }
       
-      // Step 4: Transfer the firmware to the router
-      await this.updateStatus('transferring', 40);
-      const remoteFilePath = `/tmp/firmware-update.bin`;
-      const transferSuccess = await this.sshConnector.transferFile(ip, localFirmwarePath, remoteFilePath);
+      if (download.fromCache) {
+        report('downloading', 35, { log: 'Firmware found in local cache, skipping download' });
+      }
+      
+      // Step 3b: Verify the downloaded image against the release hash
+      report('integrity-check', 35);
+      if (download.sha256 !== expectedHash) {
+        console.error(`Firmware hash mismatch: expected ${expectedHash}, got ${download.sha256}`);
+        // Drop the corrupted image so the next attempt starts from a clean download
+        this.firmwareCache.remove(expectedHash);
+        return {
+          success: false,
+          step: 'integrity-check',
+          progress: 35,
+          error: `Firmware integrity check failed: expected SHA-256 ${expectedHash}, got ${download.sha256}`
+        };
+      }
+      
+      report('integrity-check', 38, { log: `Firmware integrity verified (sha256: ${download.sha256})` });
+      if (signal?.aborted) return await this.cancelInstall(ip, 'integrity-check', 38, false, report);
+      
+      // Step 4: Make sure the image fits in /tmp, which lives in RAM on OpenWrt
+      const remoteFilePath = REMOTE_FIRMWARE_PATH;
+      const firmwareSize = fs.statSync(download.path).size;
+      report('checking-space', 39);
+      try {
+        // Drop a leftover image from an earlier attempt so it does not count against us
+        const dfOutput = await this.sshConnector.executeRemoteCommand(ip, `rm -f ${remoteFilePath}; df -k /tmp`);
+        const availableBytes = this.parseAvailableBytes(dfOutput);
+        if (availableBytes === undefined) {
+          throw new Error(`could not read free space from df: ${dfOutput.trim() || 'no output'}`);
+        }
+        if (availableBytes < firmwareSize + TMP_HEADROOM_BYTES) {
+          return {
+            success: false,
+            step: 'checking-space',
+            progress: 39,
+            error: `Not enough free RAM in /tmp: the image needs ${this.formatMegabytes(firmwareSize + TMP_HEADROOM_BYTES)} ` +
+              `including headroom, but only ${this.formatMegabytes(availableBytes)} is free. Reboot the router or stop services and try again`
+          };
+        }
+        report('checking-space', 39, {
+          log: `${this.formatMegabytes(availableBytes)} free in /tmp for a ${this.formatMegabytes(firmwareSize)} image`
+        });
+      } catch (spaceError) {
+        return {
+          success: false,
+          step: 'checking-space',
+          progress: 39,
+          error: `Failed to check free space on router: ${spaceError instanceof Error ? spaceError.message : String(spaceError)}`
+        };
+      }
+      if (signal?.aborted) return await this.cancelInstall(ip, 'checking-space', 39, false, report);
+      
+      // Step 5: Transfer the firmware to the router
+      report('transferring', 40);
+      remoteFileWritten = true;
+      let lastTransferPercent = -1;
+      const transferSuccess = await this.sshConnector.transferFile(ip, download.path, remoteFilePath, {
+        signal,
+        onProgress: (transferred, total) => {
+          // Only push an update when the transfer advances by at least a percent
+          const percent = total ? Math.floor((transferred / total) * 100) : 0;
+          if (percent === lastTransferPercent) return;
+          lastTransferPercent = percent;
+          report('transferring', 40 + Math.round((percent / 100) * 15), {
+            bytesTransferred: transferred,
+            totalBytes: total
+          });
+        }
+      });
       
+      if (signal?.aborted) return await this.cancelInstall(ip, 'transferring', 50, true, report);
       if (!transferSuccess) {
         return {
           success: false,
@@ -151,36 +329,116 @@ export class InstallerEngine {
         };
       }
       
-      console.log(`Firmware transferred to router at ${remoteFilePath}`);
+      report('transferring', 55, {
+        bytesTransferred: firmwareSize,
+        totalBytes: firmwareSize,
+        log: `Firmware transferred to router at ${remoteFilePath}`
+      });
       
-      // Step 5: Verify the transfer
-      await this.updateStatus('verifying', 60);
+      // Step 6: Verify the uploaded image byte for byte against the release hash
+      report('verifying', 60);
       try {
-        const verifyResult = await this.sshConnector.executeRemoteCommand(ip, `ls -l ${remoteFilePath}`);
-        console.log(`Verification result: ${verifyResult}`);
+        const hashOutput = await this.sshConnector.executeRemoteCommand(ip, `sha256sum ${remoteFilePath}`);
+        const remoteHash = hashOutput.trim().split(/\s+/)[0]?.toLowerCase();
+        if (remoteHash !== expectedHash) {
+          await this.removeRemoteFirmware(ip);
+          return {
+            success: false,
+            step: 'verifying',
+            progress: 62,
+            error: `Firmware on the router is corrupt: expected SHA-256 ${expectedHash}, got ${remoteHash || 'no hash'}`
+          };
+        }
+        report('verifying', 62, { log: `Firmware on router matches release hash (sha256: ${remoteHash})` });
       } catch (verifyError) {
         return {
           success: false,
           step: 'verifying',
-          progress: 65,
+          progress: 62,
           error: `Failed to verify firmware on router: ${verifyError instanceof Error ? verifyError.message : String(verifyError)}`
         };
       }
+      if (signal?.aborted) return await this.cancelInstall(ip, 'verifying', 62, true, report);
+      
+      // Step 6b: Let sysupgrade check the image metadata against the board before anything is written
+      report('validating-image', 64);
+      try {
+        const validation = await this.runWithExitCode(ip, `sysupgrade -T ${remoteFilePath}`);
+        if (validation.exitCode !== 0) {
+          await this.removeRemoteFirmware(ip);
+          return {
+            success: false,
+            step: 'validating-image',
+            progress: 64,
+            error: `sysupgrade rejected the image for this router: ${validation.output || `exit code ${validation.exitCode}`}`
+          };
+        }
+        report('validating-image', 65, {
+          log: `sysupgrade -T accepted the image${validation.output ? `: ${validation.output}` : ''}`
+        });
+      } catch (validationError) {
+        return {
+          success: false,
+          step: 'validating-image',
+          progress: 64,
+          error: `Failed to validate firmware on router: ${validationError instanceof Error ? validationError.message : String(validationError)}`
+        };
+      }
+      
+      // Step 6c: When keeping settings, back up the configuration first
+      let settingsSnapshot: Map<string, string> | undefined;
+      if (preserveSettings) {
+        if (signal?.aborted) return await this.cancelInstall(ip, 'validating-image', 65, true, report);
+        
+        report('backing-up-settings', 67);
+        try {
+          settingsSnapshot = await this.backupSettings(ip, report);
+        } catch (backupError) {
+          await this.removeRemoteFirmware(ip);
+          return {
+            success: false,
+            step: 'backing-up-settings',
+            progress: 67,
+            error: `Failed to back up settings: ${backupError instanceof Error ? backupError.message : String(backupError)}`
+          };
+        }
+      }
+      
+      // Last chance to back out: once sysupgrade runs the flash is being rewritten
+      if (signal?.aborted) {
+        return await this.cancelInstall(ip, preserveSettings ? 'backing-up-settings' : 'validating-image', preserveSettings ? 68 : 65, true, report);
+      }
       
-      // Step 6: Execute the sysupgrade command
-      await this.updateStatus('installing', 70);
+      // Step 7: Execute the sysupgrade command
       try {
-        console.log('Starting firmware upgrade with sysupgrade...');
+        report('installing', 70, {
+          cancellable: false,
+          log: preserveSettings
+            ? 'Starting firmware upgrade with sysupgrade, keeping settings...'
+            : 'Starting firmware upgrade with sysupgrade...'
+        });
         // -n flag prevents preserving settings
-        await this.sshConnector.executeRemoteCommand(ip, `sysupgrade -n ${remoteFilePath}`);
+        const command = preserveSettings ? `sysupgrade ${remoteFilePath}` : `sysupgrade -n ${remoteFilePath}`;
+        await this.sshConnector.executeRemoteCommand(ip, command);
       } catch (upgradeError) {
         // It's normal for the connection to drop during upgrade, so this is not necessarily an error
         console.log(`SSH connection dropped during upgrade (expected): ${upgradeError}`);
       }
       
-      // Step 7: Wait for the router to come back online
-      await this.updateStatus('waiting-for-reboot', 80);
-      console.log('Waiting for router to reboot...');
+      // Step 8: Wait for the router to go down and come back online
+      report('waiting-for-reboot', 80, { log: 'Waiting for router to reboot...' });
+      const wentDown = await this.sshConnector.waitForShutdown(ip, SHUTDOWN_TIMEOUT_MS);
+      if (!wentDown) {
+        return {
+          success: false,
+          step: 'waiting-for-reboot',
+          progress: 80,
+          error: 'Router kept answering SSH after sysupgrade; the firmware upgrade did not start'
+        };
+      }
+      
+      // The new firmware generates a fresh host key; pin it instead of treating it as an attack
+      this.sshConnector.expectHostKeyChange(ip);
       
       const routerReturned = await this.sshConnector.pollForAvailability(ip, 30, 5000);
       if (!routerReturned) {
@@ -192,13 +450,14 @@ export class InstallerEngine {
         };
       }
       
-      // Step 8: Verify the installation
-      await this.updateStatus('verifying-installation', 90);
+      // Step 9: Verify the installation
+      report('verifying-installation', 90);
+      let installedVersion: string;
       try {
         // Verify that the router is running TollGate OS
-        const versionInfo = await this.sshConnector.executeRemoteCommand(ip, 'cat etc/tollgate/release.json 2>/dev/null || echo "Not TollGate OS"');
+        const tollgateRelease = await this.sshConnector.getTollgateRelease(ip);
         
-        if (versionInfo.includes('Not TollGate OS')) {
+        if (!tollgateRelease) {
           return {
             success: false,
             step: 'verifying-installation',
@@ -207,7 +466,18 @@ export class InstallerEngine {
           };
         }
         
-        console.log(`TollGate OS version: ${versionInfo.trim()}`);
+        installedVersion = tollgateRelease.version;
+        // Anything but the flashed version means the router is not running the new image
+        const expectedVersion = releaseEvent.getMatchingTags('tollgate_os_version')?.[0]?.[1];
+        if (expectedVersion && compareVersions(installedVersion, expectedVersion) !== 0) {
+          return {
+            success: false,
+            step: 'verifying-installation',
+            progress: 95,
+            error: `Router reports TollGate OS ${installedVersion} after the upgrade, expected ${expectedVersion}`
+          };
+        }
+        report('verifying-installation', 95, { log: `TollGate OS version: ${installedVersion}` });
       } catch (finalVerifyError) {
         return {
           success: false,
@@ -217,32 +487,71 @@ export class InstallerEngine {
         };
       }
       
-      // Complete!
-      console.log('Installation completed successfully!');
+      // Step 9b: Check the settings came back as they were before the upgrade
+      if (settingsSnapshot) {
+        report('verifying-settings', 96);
+        try {
+          const restored = await this.readSettingsChecksums(ip);
+          const missing = [...settingsSnapshot.keys()].filter(file => !restored.has(file));
+          const changed = [...settingsSnapshot.keys()].filter(
+            file => restored.has(file) && restored.get(file) !== settingsSnapshot?.get(file)
+          );
+          
+          if (missing.length > 0) {
+            return {
+              success: false,
+              step: 'verifying-settings',
+              progress: 96,
+              installedVersion,
+              error: `Settings were not restored after the upgrade; missing ${missing.join(', ')}. ` +
+                `A backup was saved in ${this.backupDir}`
+            };
+          }
+          // First-boot scripts of the new firmware may migrate config files, so changes are reported, not fatal
+          report('verifying-settings', 96, {
+            log: changed.length > 0
+              ? `Settings restored; changed by the new firmware: ${changed.join(', ')}`
+              : `All ${settingsSnapshot.size} settings files restored unchanged`
+          });
+        } catch (settingsError) {
+          return {
+            success: false,
+            step: 'verifying-settings',
+            progress: 96,
+            installedVersion,
+            error: `Failed to verify restored settings: ${settingsError instanceof Error ? settingsError.message : String(settingsError)}`
+          };
+        }
+      }
       
-      // Ensure all SSH connections are properly closed
-      try {
-        await this.sshConnector.closeAllConnections();
-      } catch (cleanupError) {
-        console.warn('Error while cleaning up SSH connections:', cleanupError);
-        // Don't fail the installation because of cleanup errors
+      // Step 10: Install the technician's public key; a clean install wiped any previous one
+      if (options?.authorizedKeyPath) {
+        report('provisioning-key', 97);
+        try {
+          await this.sshConnector.installAuthorizedKey(ip, options.authorizedKeyPath);
+          report('provisioning-key', 98, { log: `Installed public key from ${options.authorizedKeyPath}` });
+        } catch (keyError) {
+          // The firmware is installed; a missing key only means the next login needs a password
+          report('provisioning-key', 98, {
+            log: `Could not install SSH key: ${keyError instanceof Error ? keyError.message : String(keyError)}`
+          });
+        }
       }
       
+      // Complete!
+      report('complete', 100, { log: 'Installation completed successfully!' });
+      
       return {
         success: true,
         step: 'complete',
-        progress: 100
+        progress: 100,
+        installedVersion
       };
     } catch (error) {
-      console.error(`Installation error for ${ip}:`, error);
-      
-      // Ensure all SSH connections are properly closed even on error
-      try {
-        await this.sshConnector.closeAllConnections();
-      } catch (cleanupError) {
-        console.warn('Error while cleaning up SSH connections after error:', cleanupError);
-        // Don't add this to the returned error
+      if (signal?.aborted) {
+        return await this.cancelInstall(ip, 'error', 0, remoteFileWritten, report);
       }
+      console.error(`Installation error for ${ip}:`, error);
       
       return {
         success: false,
@@ -254,70 +563,142 @@ export class InstallerEngine {
   }
 
   /**
-   * In a real implementation, this would:
-   * 1. Find the appropriate image for the router model/system
-   * 2. Download it from a repository if not locally available
-   * 3. Return the path to the image file
+   * Makes sure TollGate config survives sysupgrade, saves a configuration backup locally
+   * and records a checksum of every settings file to compare against after the reboot
+   * @returns Checksums of the settings files, keyed by path
    */
-  private async getImageForRouter(board_name: string, system: string): Promise<string> {
-    // This is a placeholder for the actual implementation
-    // In a real app, you would have logic to determine the appropriate image
-    // based on the router's board name and system
+  private async backupSettings(ip: string, report: ProgressReporter): Promise<Map<string, string>> {
+    // sysupgrade keeps /etc/config by default; TollGate's own files must be listed in sysupgrade.conf
+    await this.sshConnector.executeRemoteCommand(
+      ip,
+      `find /etc/tollgate -type f ! -name release.json 2>/dev/null | while read -r file; do ` +
+        `grep -qxF "$file" /etc/sysupgrade.conf 2>/dev/null || echo "$file" >> /etc/sysupgrade.conf; done`
+    );
+    
+    const snapshot = await this.readSettingsChecksums(ip);
+    if (snapshot.size === 0) {
+      throw new Error('No settings files found in /etc/config or /etc/tollgate');
+    }
     
-    // For this prototype, we'll just return a fake path
-    return path.join(__dirname, '..', '..', 'images', `tollgate-${board_name}-${system}.bin`);
+    const backup = await this.runWithExitCode(ip, `sysupgrade -b ${REMOTE_BACKUP_PATH}`);
+    if (backup.exitCode !== 0) {
+      throw new Error(`sysupgrade -b failed: ${backup.output || `exit code ${backup.exitCode}`}`);
+    }
+    
+    const localPath = path.join(
+      this.backupDir,
+      `${ip.replace(/[^0-9a-zA-Z.-]/g, '_')}-${new Date().toISOString().replace(/[:.]/g, '-')}.tar.gz`
+    );
+    const downloaded = await this.sshConnector.downloadFile(ip, REMOTE_BACKUP_PATH, localPath);
+    await this.sshConnector.executeRemoteCommand(ip, `rm -f ${REMOTE_BACKUP_PATH}`);
+    if (!downloaded) {
+      throw new Error('Could not copy the configuration backup from the router');
+    }
+    
+    report('backing-up-settings', 68, { log: `Backed up ${snapshot.size} settings files to ${localPath}` });
+    return snapshot;
   }
 
   /**
-   * Simulates a delay for a given step and updates the status
+   * Reads the SHA-256 of every settings file on the router
    */
-  private async updateStatus(step: string, progress: number): Promise<void> {
-    return new Promise((resolve) => {
-      // Simulate a delay for demonstration purposes
-      setTimeout(() => {
-        console.log(`Install step: ${step}, progress: ${progress}%`);
-        resolve();
-      }, 1000); // 1 second delay per step
-    });
+  private async readSettingsChecksums(ip: string): Promise<Map<string, string>> {
+    const output = await this.sshConnector.executeRemoteCommand(ip, `${SETTINGS_FILES_COMMAND} | xargs -r sha256sum`);
+    const checksums = new Map<string, string>();
+    for (const line of output.split('\n')) {
+      const match = line.match(/^([0-9a-f]{64})\s+(.+)$/);
+      if (match) checksums.set(match[2], match[1]);
+    }
+    return checksums;
   }
 
   /**
-   * In a real implementation, this would:
-   * 1. Upload the image to the router using SCP/SFTP
-   * 2. Verify the transfer was successful
+   * Runs a command and returns its combined output and exit code
+   * executeRemoteCommand only returns stdout, so the exit code is echoed after the output
    */
-  private async transferImageToRouter(ip: string, imagePath: string): Promise<boolean> {
-    // This is a placeholder for the actual implementation
-    console.log(`Simulating transfer of ${imagePath} to router at ${ip}`);
-    
-    // In a real app, you would use the SSH connection to transfer the file
-    // using SCP/SFTP, something like:
-    //
-    // const sftp = await sshClient.sftp();
-    // await sftp.fastPut(localPath, remotePath);
-    
-    // Simulate success
-    return true;
+  private async runWithExitCode(ip: string, command: string): Promise<{ exitCode: number; output: string }> {
+    const output = await this.sshConnector.executeRemoteCommand(ip, `${command} 2>&1; echo "exit-code=$?"`);
+    const match = output.match(/^exit-code=(\d+)\s*$/m);
+    return {
+      exitCode: match ? Number(match[1]) : -1,
+      output: output.replace(/^exit-code=\d+\s*$/m, '').trim()
+    };
   }
 
   /**
-   * In a real implementation, this would:
-   * 1. Execute the installation script on the router
-   * 2. Monitor its output
-   * 3. Return the result
+   * Reads the available space from `df -k` output (BusyBox and coreutils both put it in the fourth column)
    */
-  private async executeInstallScript(ip: string, remotePath: string): Promise<boolean> {
-    // This is a placeholder for the actual implementation
-    console.log(`Simulating execution of install script for image at ${remotePath} on router ${ip}`);
+  private parseAvailableBytes(dfOutput: string): number | undefined {
+    const lines = dfOutput.trim().split('\n');
+    // Long filesystem names wrap onto a second line, so read the last line from the right
+    const columns = lines[lines.length - 1]?.trim().split(/\s+/) || [];
+    if (lines.length < 2 || columns.length < 4) return undefined;
+    const availableKb = Number(columns[columns.length - 3]);
+    return Number.isFinite(availableKb) ? availableKb * 1024 : undefined;
+  }
+
+  private formatMegabytes(bytes: number): string {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  /**
+   * Removes the uploaded image when an install stops before flashing
+   * @returns Whether the image was removed
+   */
+  private async removeRemoteFirmware(ip: string): Promise<boolean> {
+    try {
+      await this.sshConnector.executeRemoteCommand(ip, `rm -f ${REMOTE_FIRMWARE_PATH}`);
+      return true;
+    } catch (cleanupError) {
+      console.warn(`Could not remove ${REMOTE_FIRMWARE_PATH} from ${ip}:`, cleanupError);
+      return false;
+    }
+  }
+
+  /**
+   * Winds down a cancelled install by removing the uploaded image
+   * Only called before sysupgrade has started, so the router is left on its current firmware
+   */
+  private async cancelInstall(
+    ip: string,
+    step: string,
+    progress: number,
+    removeRemoteFile: boolean,
+    report: ProgressReporter
+  ): Promise<InstallStatus> {
+    console.log(`Installation on ${ip} cancelled during step: ${step}`);
     
-    // In a real app, you would execute the installation command via SSH
-    // and monitor its output, something like:
-    //
-    // const output = await sshConnector.executeCommand(
-    //   `sysupgrade -n ${remotePath}`
-    // );
+    if (removeRemoteFile && await this.removeRemoteFirmware(ip)) {
+      report(step, progress, { log: `Removed ${REMOTE_FIRMWARE_PATH} from router` });
+    }
     
-    // Simulate success
-    return true;
+    report(step, progress, { cancellable: false, log: 'Installation cancelled' });
+    return {
+      success: false,
+      step,
+      progress,
+      error: 'Installation cancelled',
+      cancelled: true
+    };
+  }
+
+  /**
+   * Creates a reporter that logs each install step and forwards it to the progress callback
+   */
+  private createReporter(ip: string, onProgress?: InstallProgressCallback): ProgressReporter {
+    return (step, progress, details) => {
+      if (details?.log) {
+        console.log(`[${ip}] ${details.log}`);
+      } else if (details?.bytesDownloaded === undefined && details?.bytesTransferred === undefined) {
+        console.log(`Install step: ${step}, progress: ${progress}%`);
+      }
+      
+      try {
+        onProgress?.({ ip, step, progress, ...details });
+      } catch (error) {
+        // A broken listener must never abort the install
+        console.warn(`Error reporting install progress for ${ip}:`, error);
+      }
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,179 @@
+import * as dgram from 'dgram';
+import * as os from 'os';
+
+const MDNS_ADDRESS = '224.0.0.251';
+const MDNS_PORT = 5353;
+
+const TYPE_A = 1;
+const TYPE_PTR = 12;
+
+interface DnsRecord {
+  name: string;
+  type: number;
+  data: Buffer;
+}
+
+/**
+ * Minimal DNS-SD browser for finding hosts that announce a service over mDNS
+ * Queries are sent from an ephemeral port (a "legacy unicast" query), so responders
+ * answer us directly and we do not compete with avahi or mDNSResponder for port 5353
+ */
+export class MdnsBrowser {
+  private readonly timeoutMs: number;
+
+  /**
+   * @param config.timeoutMs How long to collect answers after the query is sent
+   */
+  constructor(config?: { timeoutMs?: number }) {
+    this.timeoutMs = config?.timeoutMs || 1500;
+  }
+
+  /**
+   * Asks every IPv4 network for instances of a service type and collects the addresses that answer
+   * @param serviceType DNS-SD service type, e.g. "_ssh._tcp.local"
+   * @returns IPv4 addresses of the hosts announcing the service
+   */
+  public browse(serviceType: string): Promise<string[]> {
+    return new Promise((resolve) => {
+      const found = new Set<string>();
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+      let finished = false;
+
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timer);
+        try {
+          socket.close();
+        } catch (error) {
+          // Already closed
+        }
+        console.log(`mDNS browse for ${serviceType} found ${found.size} host(s)`);
+        resolve([...found]);
+      };
+      const timer = setTimeout(finish, this.timeoutMs);
+
+      socket.on('error', (error) => {
+        console.warn(`mDNS browse for ${serviceType} failed:`, error.message);
+        finish();
+      });
+
+      socket.on('message', (message, remote) => {
+        try {
+          const records = this.parseResponse(message);
+          if (!records.some(record => record.type === TYPE_PTR && this.sameName(record.name, serviceType))) {
+            return;
+          }
+          // Prefer the A records in the answer; fall back to the address the answer came from
+          const addresses = records
+            .filter(record => record.type === TYPE_A && record.data.length === 4)
+            .map(record => [...record.data].join('.'));
+          (addresses.length > 0 ? addresses : [remote.address]).forEach(address => found.add(address));
+        } catch (error) {
+          // Ignore malformed packets from other mDNS traffic
+        }
+      });
+
+      socket.bind(0, async () => {
+        const query = this.buildQuery(serviceType);
+        // Send the query out of every IPv4 interface, not just the one with the default route
+        for (const address of this.getInterfaceAddresses()) {
+          try {
+            socket.setMulticastInterface(address);
+            await new Promise<void>((sent) => socket.send(query, MDNS_PORT, MDNS_ADDRESS, () => sent()));
+          } catch (error) {
+            console.warn(`Could not send mDNS query on ${address}:`, error);
+          }
+        }
+      });
+    });
+  }
+
+  private getInterfaceAddresses(): string[] {
+    return Object.values(os.networkInterfaces())
+      .flatMap(interfaces => interfaces || [])
+      .filter(iface => iface.family === 'IPv4' && !iface.internal)
+      .map(iface => iface.address);
+  }
+
+  /**
+   * Builds a single-question PTR query
+   */
+  private buildQuery(serviceType: string): Buffer {
+    const header = Buffer.alloc(12);
+    header.writeUInt16BE(1, 4); // One question
+
+    const labels = serviceType.split('.').filter(Boolean).map(label => {
+      const bytes = Buffer.from(label, 'utf-8');
+      return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    });
+
+    const question = Buffer.alloc(4);
+    question.writeUInt16BE(TYPE_PTR, 0);
+    question.writeUInt16BE(1, 2); // Class IN
+
+    return Buffer.concat([header, ...labels, Buffer.from([0]), question]);
+  }
+
+  /**
+   * Reads the answer, authority and additional records of a DNS response
+   * @returns An empty list for queries and truncated or malformed packets
+   */
+  private parseResponse(message: Buffer): DnsRecord[] {
+    if (message.length < 12 || (message.readUInt16BE(2) & 0x8000) === 0) {
+      return [];
+    }
+
+    const questionCount = message.readUInt16BE(4);
+    const recordCount = message.readUInt16BE(6) + message.readUInt16BE(8) + message.readUInt16BE(10);
+    let offset = 12;
+
+    for (let i = 0; i < questionCount; i++) {
+      offset = this.readName(message, offset).next + 4;
+    }
+
+    const records: DnsRecord[] = [];
+    for (let i = 0; i < recordCount; i++) {
+      const { name, next } = this.readName(message, offset);
+      const type = message.readUInt16BE(next);
+      const length = message.readUInt16BE(next + 8);
+      const dataStart = next + 10;
+      if (dataStart + length > message.length) break;
+
+      records.push({ name, type, data: message.subarray(dataStart, dataStart + length) });
+      offset = dataStart + length;
+    }
+    return records;
+  }
+
+  /**
+   * Reads a possibly compressed domain name
+   * @returns The name and the offset just past it in the original position
+   */
+  private readName(message: Buffer, start: number): { name: string; next: number } {
+    const labels: string[] = [];
+    let offset = start;
+    let next = -1;
+
+    // Bound the number of compression pointers followed so a malicious packet cannot loop forever
+    for (let jumps = 0; jumps < 32; ) {
+      const length = message.readUInt8(offset);
+      if (length === 0) {
+        return { name: labels.join('.'), next: next === -1 ? offset + 1 : next };
+      }
+      if ((length & 0xc0) === 0xc0) {
+        if (next === -1) next = offset + 2;
+        offset = message.readUInt16BE(offset) & 0x3fff;
+        jumps++;
+        continue;
+      }
+      labels.push(message.toString('utf-8', offset + 1, offset + 1 + length));
+      offset += length + 1;
+    }
+    throw new Error('Too many compression pointers in DNS name');
+  }
+
+  private sameName(a: string, b: string): boolean {
+    return a.replace(/\.$/, '').toLowerCase() === b.replace(/\.$/, '').toLowerCase();
+  }
+}
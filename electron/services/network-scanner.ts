@@ -1,57 +1,131 @@
+import * as fs from 'fs';
 import * as ip from 'ip';
 import * as net from 'net';
 import * as os from 'os';
+import * as path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { SshConnector, RouterInfo } from './ssh-connector';
-import { ScanResult } from '../../shared/types';
+import { SshConnector } from './ssh-connector';
+import { MdnsBrowser } from './mdns-browser';
+import { DeviceFingerprinter } from './device-fingerprinter';
+import { MAX_SCAN_HOSTS } from './scan-profile-store';
+import {
+  ScanResult,
+  ScanEvent,
+  ScanProfile,
+  DiscoverySource,
+  DeviceFingerprint,
+  RouterInfo,
+  TollgateReleaseInfo
+} from '../../shared/types';
 
 const execPromise = promisify(exec);
 
+export type ScanEventListener = (event: ScanEvent) => void;
+
+interface OpenSshHost {
+  ip: string;
+  port: number;
+}
+
+interface DiscoveredHost extends OpenSshHost {
+  discoveredVia: DiscoverySource[];
+}
+
+// Sources that point at this computer's gateway rather than an arbitrary neighbour
+const GATEWAY_SOURCES: DiscoverySource[] = ['interface', 'route', 'dhcp'];
+
+// Firmware families that are OpenWrt or built on it
+const OPENWRT_FAMILIES: DeviceFingerprint['family'][] = ['openwrt', 'glinet-stock', 'tollgate'];
+
+// Directories where DHCP clients keep their leases (dhclient, NetworkManager, systemd-networkd)
+const DHCP_LEASE_DIRS = [
+  '/var/lib/dhcp',
+  '/var/lib/dhclient',
+  '/var/lib/NetworkManager',
+  '/run/systemd/netif/leases'
+];
+
 export class NetworkScanner {
   private readonly timeoutMs: number;
   private readonly subnetRanges: string[];
   private readonly sshConnector: SshConnector;
+  private readonly concurrency: number;
+  private readonly enrichConcurrency: number;
+  private readonly probeIntervalMs: number;
+  private readonly mdnsBrowser: MdnsBrowser;
+  private readonly fingerprinter: DeviceFingerprinter;
+  private nextProbeAt: number = 0;
 
-  constructor(config?: { timeoutMs?: number; subnetRanges?: string[] }) {
-    this.timeoutMs = config?.timeoutMs || 300; // Default timeout: 1 second
+  /**
+   * @param config.concurrency Number of port probes in flight at once
+   * @param config.maxProbesPerSecond Upper bound on new connection attempts per second
+   * @param config.enrichConcurrency Number of routers queried over SSH at once after the sweep
+   */
+  constructor(config?: {
+    timeoutMs?: number;
+    subnetRanges?: string[];
+    sshConnector?: SshConnector;
+    concurrency?: number;
+    maxProbesPerSecond?: number;
+    enrichConcurrency?: number;
+  }) {
+    this.timeoutMs = config?.timeoutMs || 300; // Default timeout: 300 ms per probe
     this.subnetRanges = config?.subnetRanges || [
-      "192.168.8.1/32",
-      "192.168.1.1/32",
-      // "192.168.8.0/24",
+      "192.168.8.0/24",
+      "192.168.1.0/24",
       // '192.168.0.0/24',
-      // '192.168.1.0/24',
       // '10.0.0.0/24'
     ]; // 192.168.0.0/16 (last resort)
-    this.sshConnector = new SshConnector();
+    this.sshConnector = config?.sshConnector || new SshConnector();
+    this.concurrency = Math.max(1, config?.concurrency || 128);
+    this.probeIntervalMs = 1000 / Math.max(1, config?.maxProbesPerSecond || 500);
+    this.enrichConcurrency = Math.max(1, config?.enrichConcurrency || 4);
+    this.mdnsBrowser = new MdnsBrowser();
+    this.fingerprinter = new DeviceFingerprinter({ sshConnector: this.sshConnector });
   }
 
   /**
-   * Gets directly connected devices using network interfaces
+   * Gathers candidate routers from every local discovery source
+   * Interface guesses, the default route, the ARP table, mDNS and DHCP leases are queried in
+   * parallel; an address reported by several sources is returned once with all of them
    */
-  private async getDirectlyConnectedDevices(): Promise<string[]> {
-    try {
-      // Get default gateways and potential routers from network interfaces
-      const interfaceDevices = this.getNetworkInterfaceGateways();
-      console.log("Potential gateways from network interfaces:", interfaceDevices);
-      
-      // Get additional information using platform-specific commands
-      const commandDevices = await this.getDevicesFromNetworkCommand();
-      console.log("Potential devices from network commands:", commandDevices);
-      
-      // Combine and deduplicate
-      const allDevices = [...new Set([...interfaceDevices, ...commandDevices])];
-      console.log("All directly connected devices:", allDevices);
+  private async discoverCandidates(): Promise<Map<string, DiscoverySource[]>> {
+    const sources: DiscoverySource[] = ['interface', 'route', 'route', 'arp', 'mdns', 'dhcp'];
+    const lookups = await Promise.allSettled([
+      Promise.resolve().then(() => this.getNetworkInterfaceGateways()),
+      this.getDevicesFromNetworkCommand(),
+      this.getIpv6Routers(),
+      this.getArpNeighbours(),
+      this.mdnsBrowser.browse('_ssh._tcp.local'),
+      this.getDhcpLeaseServers()
+    ]);
+    
+    const candidates = new Map<string, DiscoverySource[]>();
+    for (const [index, lookup] of lookups.entries()) {
+      const source = sources[index];
+      if (lookup.status === 'rejected') {
+        console.error(`Error discovering devices via ${source}:`, lookup.reason);
+        continue;
+      }
+      console.log(`Potential devices via ${source}:`, lookup.value);
       
-      return allDevices;
-    } catch (error) {
-      console.error("Error getting directly connected devices:", error);
-      return [];
+      for (const address of lookup.value) {
+        if (!net.isIP(address)) continue;
+        const via = candidates.get(address) || [];
+        if (!via.includes(source)) via.push(source);
+        candidates.set(address, via);
+      }
     }
+    
+    console.log("All discovered candidates:", Object.fromEntries(candidates));
+    return candidates;
   }
   
   /**
    * Gets potential default gateways from network interfaces
+   * Besides the usual IPv4 .1 and .254 guesses, every interface with an IPv6 link-local
+   * address gets fe80::1 on that link, which answers even when IPv4 DHCP is broken
    */
   private getNetworkInterfaceGateways(): string[] {
     const potentialRouters: string[] = [];
@@ -66,6 +140,14 @@ export class NetworkScanner {
       // Skip loopback interfaces
       if (interfaceName.startsWith('lo')) continue;
       
+      // A link-local address is only usable together with the interface it belongs to
+      const linkLocal = interfaces.find(iface => iface.family === 'IPv6' && !iface.internal && /^fe80:/i.test(iface.address));
+      if (linkLocal) {
+        const gateway = `fe80::1%${this.getZoneId(interfaceName, linkLocal.scopeid)}`;
+        potentialRouters.push(gateway);
+        console.log(`Identified potential IPv6 link-local gateway ${gateway} from interface ${interfaceName}`);
+      }
+      
       for (const iface of interfaces) {
         // Only consider IPv4 addresses
         if (iface.family === 'IPv4' && !iface.internal) {
@@ -134,74 +216,250 @@ export class NetworkScanner {
     }
   }
 
+  /**
+   * Gets IPv6 routers from the default route and from neighbours flagged as routers
+   * Link-local addresses are returned with their zone ID, e.g. "fe80::1%eth0"
+   */
+  private async getIpv6Routers(): Promise<string[]> {
+    const routers: string[] = [];
+    
+    if (process.platform === 'darwin') {
+      // "default  fe80::1%en0  UGcg  en0"; macOS already includes the zone
+      const { stdout } = await execPromise('netstat -rn -f inet6');
+      for (const line of stdout.split('\n')) {
+        const [destination, gateway] = line.trim().split(/\s+/);
+        if (destination === 'default' && gateway && net.isIPv6(gateway)) {
+          routers.push(gateway);
+        }
+      }
+    } else if (process.platform === 'linux') {
+      // "default via fe80::1 dev eth0 proto ra metric 1024" and "fe80::1 dev eth0 lladdr ... router REACHABLE"
+      const [routes, neighbours] = await Promise.all([
+        execPromise('ip -6 route show default').then(result => result.stdout, () => ''),
+        execPromise('ip -6 neigh show').then(result => result.stdout, () => '')
+      ]);
+      for (const match of routes.matchAll(/via (\S+) dev (\S+)/g)) {
+        routers.push(this.withZone(match[1], match[2]));
+      }
+      for (const line of neighbours.split('\n')) {
+        const match = line.match(/^(\S+) dev (\S+) .*\brouter\b/);
+        if (match && !/FAILED|INCOMPLETE/.test(line)) {
+          routers.push(this.withZone(match[1], match[2]));
+        }
+      }
+    }
+    
+    return routers.filter(address => net.isIPv6(address));
+  }
+  
+  /**
+   * Appends the interface as zone ID to link-local addresses, which are ambiguous without one
+   */
+  private withZone(address: string, interfaceName: string): string {
+    return /^fe80:/i.test(address) && !address.includes('%') ? `${address}%${interfaceName}` : address;
+  }
+  
+  /**
+   * Windows identifies links by numeric scope ID, other platforms by interface name
+   */
+  private getZoneId(interfaceName: string, scopeId?: number): string {
+    return process.platform === 'win32' && scopeId !== undefined ? String(scopeId) : interfaceName;
+  }
+
+  /**
+   * Reads neighbours with a resolved MAC address from the kernel ARP table
+   * Uses /proc/net/arp on Linux and the arp command elsewhere
+   */
+  private async getArpNeighbours(): Promise<string[]> {
+    let table: string;
+    if (process.platform === 'linux' && fs.existsSync('/proc/net/arp')) {
+      table = fs.readFileSync('/proc/net/arp', 'utf-8');
+    } else {
+      // -n skips reverse DNS lookups, which can take seconds per entry on macOS
+      table = (await execPromise(process.platform === 'win32' ? 'arp -a' : 'arp -an')).stdout;
+    }
+    
+    const neighbours: string[] = [];
+    for (const line of table.split('\n')) {
+      const address = line.match(/\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/)?.[0];
+      const mac = line.match(/([0-9a-f]{1,2}[:-]){5}[0-9a-f]{1,2}/i)?.[0].toLowerCase();
+      // Skip incomplete entries and broadcast or multicast neighbours
+      if (!address || !mac || /^(0{1,2}[:-]){5}0{1,2}$/.test(mac) || /^(ff[:-]){5}ff$/.test(mac)) continue;
+      if (Number(address.split('.')[0]) >= 224) continue;
+      neighbours.push(address);
+    }
+    return neighbours;
+  }
+  
+  /**
+   * Reads the router and DHCP server addresses from this computer's DHCP leases
+   * Only addresses inside a subnet this computer is currently on are returned,
+   * since lease files keep entries from networks it was connected to before
+   */
+  private async getDhcpLeaseServers(): Promise<string[]> {
+    const addresses: string[] = [];
+    
+    if (process.platform === 'darwin') {
+      for (const interfaceName of Object.keys(os.networkInterfaces())) {
+        try {
+          const { stdout } = await execPromise(`ipconfig getpacket ${interfaceName}`);
+          for (const line of stdout.split('\n')) {
+            if (/^(server_identifier|router)\b/.test(line)) {
+              addresses.push(...(line.match(/\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}/g) || []));
+            }
+          }
+        } catch (error) {
+          // Interface has no DHCP lease
+        }
+      }
+    } else if (process.platform === 'win32') {
+      const { stdout } = await execPromise('ipconfig /all');
+      for (const line of stdout.split('\n')) {
+        if (/DHCP Server/i.test(line)) {
+          addresses.push(...(line.match(/\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}/g) || []));
+        }
+      }
+    } else {
+      for (const directory of DHCP_LEASE_DIRS) {
+        let files: string[];
+        try {
+          files = fs.readdirSync(directory);
+        } catch (error) {
+          continue;
+        }
+        
+        for (const file of files) {
+          let contents: string;
+          try {
+            contents = fs.readFileSync(path.join(directory, file), 'utf-8');
+          } catch (error) {
+            continue;
+          }
+          // dhclient: "option routers 192.168.1.1;", NetworkManager and networkd: "ROUTER=192.168.1.1"
+          const entries = [
+            ...contents.matchAll(/option (?:routers|dhcp-server-identifier) ([^;]+);/g),
+            ...contents.matchAll(/^(?:ROUTER|SERVER_ADDRESS)=(.+)$/gm)
+          ];
+          for (const entry of entries) {
+            addresses.push(...(entry[1].match(/\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}/g) || []));
+          }
+        }
+      }
+    }
+    
+    const localSubnets = Object.values(os.networkInterfaces())
+      .flatMap(interfaces => interfaces || [])
+      .filter(iface => iface.family === 'IPv4' && !iface.internal && iface.cidr)
+      .map(iface => ip.cidrSubnet(iface.cidr as string));
+    return [...new Set(addresses)].filter(address =>
+      net.isIPv4(address) && localSubnets.some(subnet => subnet.contains(address))
+    );
+  }
+
   /**
    * Scans the network for potential routers
-   * First scans devices directly connected to this computer, then proceeds with subnet scan
+   * First scans devices found by local discovery (gateways, ARP, mDNS, DHCP), then proceeds with subnet scan
+   * @param onEvent Receives probe progress and each router as soon as it is found and enriched
+   * @param profile Ranges, hosts, ports and timeout to scan; the constructor defaults are used when omitted
    */
-  public async scan(): Promise<ScanResult[]> {
+  public async scan(onEvent?: ScanEventListener, profile?: ScanProfile): Promise<ScanResult[]> {
     const results: ScanResult[] = [];
     const existingIps = new Set<string>();
+    const emit = (event: ScanEvent) => {
+      try {
+        onEvent?.(event);
+      } catch (error) {
+        console.warn('Error reporting scan event:', error);
+      }
+    };
+    
+    const ports = profile?.ports.length ? profile.ports : [22];
+    const timeoutMs = profile?.timeoutMs || this.timeoutMs;
     
     try {
-      // Step 1: First scan directly connected devices (gateways and network interfaces)
-      console.log("Scanning directly connected devices first...");
-      const connectedDevices = await this.getDirectlyConnectedDevices();
+      const candidates = profile?.includeGateways === false
+        ? new Map<string, DiscoverySource[]>()
+        : await this.discoverCandidates();
+      const connectedDevices = [...candidates.keys()];
+      const subnetIps = this.getSubnetIps(profile?.cidrs || this.subnetRanges, profile?.hosts || [])
+        .filter(ipAddress => !connectedDevices.includes(ipAddress));
       
-      for (const ipAddress of connectedDevices) {
-        try {
-          console.log(`Checking directly connected device: ${ipAddress}`);
-          // Check each IP and add to results if it has SSH open
-          const deviceResult = await this.checkAndEnrichDevice(ipAddress);
-          if (deviceResult) {
-            // Mark device as a gateway since it's directly connected
-            deviceResult.meta = {
-              ...deviceResult.meta,
-              isGateway: true, // Use the existing isGateway property to mark directly connected devices
-            };
-            results.push(deviceResult);
-            existingIps.add(deviceResult.ip);
-            console.log(`Found router with SSH enabled: ${ipAddress} (directly connected)`);
-          }
-        } catch (error) {
-          console.error(`Error scanning directly connected device ${ipAddress}:`, error);
-          // Continue with next IP
+      // Batch probe progress so a /16 sweep does not flood the renderer
+      const total = connectedDevices.length + subnetIps.length;
+      let probed = 0;
+      let lastProgressAt = 0;
+      const onProbed = (ipAddress: string, sshOpen: boolean) => {
+        probed++;
+        if (sshOpen) {
+          emit({ type: 'ssh-open', ip: ipAddress });
         }
-      }
+        const now = Date.now();
+        if (now - lastProgressAt >= 100 || probed === total) {
+          lastProgressAt = now;
+          emit({ type: 'hosts-probed', probed, total });
+        }
+      };
+      const onEnriched = (result: ScanResult) => {
+        if (existingIps.has(result.ip)) return;
+        existingIps.add(result.ip);
+        results.push(result);
+        emit({ type: 'enriched', result });
+      };
+      
+      emit({ type: 'started', total });
+      
+      // Step 1: First scan devices found by local discovery
+      // Those reported by the interfaces, default route or DHCP are marked as gateways
+      console.log("Scanning discovered devices first...");
+      const openCandidates = await this.sweepSshPorts(connectedDevices, ports, timeoutMs, onProbed);
+      await this.enrichDevices(
+        openCandidates.map(host => ({ ...host, discoveredVia: candidates.get(host.ip) || [] })),
+        onEnriched
+      );
+      
+      // Stock vendor firmware often has SSH closed; identify discovered devices by their web interface instead
+      const closedCandidates = connectedDevices.filter(ipAddress => !openCandidates.some(host => host.ip === ipAddress));
+      await this.identifyClosedDevices(
+        closedCandidates.map(ipAddress => ({ ip: ipAddress, discoveredVia: candidates.get(ipAddress) || [] })),
+        onEnriched
+      );
       
       // Step 2: Then scan subnets for other potential routers
+      // All addresses are swept for an open port first; only hosts that answer are queried over SSH
       console.log("Proceeding with subnet scan for additional devices...");
-      const subnetResults = await this.scanSubnetsForSsh();
-      
-      // Filter out duplicate IPs
-      for (const result of subnetResults) {
-        if (!existingIps.has(result.ip)) {
-          results.push(result);
-          existingIps.add(result.ip);
-          console.log(`Added subnet router to results: ${result.ip}`);
-        } else {
-          console.log(`Skipping duplicate router: ${result.ip} (already in results)`);
-        }
-      }
+      const started = Date.now();
+      const openHosts = await this.sweepSshPorts(subnetIps, ports, timeoutMs, onProbed);
+      console.log(`Port sweep of ${subnetIps.length} addresses took ${Date.now() - started}ms, ${openHosts.length} with SSH open`);
+      await this.enrichDevices(
+        openHosts
+          .filter(host => !existingIps.has(host.ip))
+          .map(host => ({ ...host, discoveredVia: ['sweep'] })),
+        onEnriched
+      );
 
       // Log detailed information about what's being returned
       console.log(`FINAL SCAN RESULTS: Found ${results.length} routers:`);
       results.forEach((router, index) => {
-        console.log(`Router ${index + 1}: ${router.ip} (OpenWrt: ${router.meta?.isOpenwrt}, Gateway: ${router.meta?.isGateway})`);
+        console.log(`Router ${index + 1}: ${router.ip} (OpenWrt: ${router.meta?.isOpenwrt}, Gateway: ${router.meta?.isGateway}, via: ${router.discoveredVia?.join(', ')})`);
       });
-      
-      return results;
     } catch (error) {
       console.error('Error scanning network:', error);
       // Return whatever results we have so far
-      return results.length > 0 ? results : [];
     }
+    
+    emit({ type: 'done', results });
+    return results;
   }
   
   /**
    * Public method to check a manually entered device
-   * Returns a ScanResult if SSH is open, or null if not
+   * Returns a ScanResult if SSH is open or the web interface identifies a router, or null if not
    */
   public async checkManualDevice(ipAddress: string): Promise<ScanResult | null> {
+    if (!net.isIP(ipAddress)) {
+      console.error(`Invalid manual device address: ${ipAddress}`);
+      return null;
+    }
     try {
       return await this.checkAndEnrichDevice(ipAddress);
     } catch (error) {
@@ -211,61 +469,146 @@ export class NetworkScanner {
   }
 
   /**
-   * Scans configured subnets for devices with open SSH ports
+   * Expands subnets and explicit hosts into a single de-duplicated list of addresses
    */
-  private async scanSubnetsForSsh(): Promise<ScanResult[]> {
-    const results: ScanResult[] = [];
-    console.log("Starting subnet scan for SSH devices");
-
-    try {
-      // Scan all subnets
-      for (const subnetRange of this.subnetRanges) {
-        console.log(`Scanning subnet range: ${subnetRange}`);
-        
-        // Generate all IPs in the subnet
-        let ips: string[]
+  private getSubnetIps(subnetRanges: string[], hosts: string[]): string[] {
+    const ips = new Set<string>(hosts);
+    for (const subnetRange of subnetRanges) {
+      const rangeIps = this.expandSubnet(subnetRange);
+      console.log(`Found ${rangeIps.length} IPs in subnet ${subnetRange}`);
+      rangeIps.forEach(ipAddress => ips.add(ipAddress));
+      if (ips.size >= MAX_SCAN_HOSTS) {
+        console.warn(`Scan limited to the first ${MAX_SCAN_HOSTS} addresses`);
+        return [...ips].slice(0, MAX_SCAN_HOSTS);
+      }
+    }
+    return [...ips];
+  }
 
-        if(subnetRange.endsWith("/32")){
-          ips = [subnetRange.split('/', 1)[0]]
-        } else{
-          ips = this.expandSubnet(subnetRange);
-        }
-        
-        console.log(`Found ${ips.length} IPs in subnet ${subnetRange}`);
-        
-        // Scan each IP
-        for (const ipAddress of ips) {
-          try {
-            // Check each IP and add to results if it has SSH open
-            const deviceResult = await this.checkAndEnrichDevice(ipAddress);
-            if (deviceResult) {
-              results.push(deviceResult);
-              console.log(`Found router in subnet scan: ${ipAddress}`);
-              // Continue scanning other devices - don't return early
-            }
-          } catch (error) {
-            console.error(`Error scanning ${ipAddress}:`, error);
-            // Continue with next IP
-          }
+  /**
+   * Probes the SSH ports on many addresses in parallel, bounded by the worker pool and probe rate
+   * Ports are tried in order and the first one that accepts a connection is used
+   * @returns The addresses with SSH open and their port, in the order they were given
+   */
+  private async sweepSshPorts(
+    ips: string[],
+    ports: number[],
+    timeoutMs: number,
+    onProbed?: (ip: string, sshOpen: boolean) => void
+  ): Promise<OpenSshHost[]> {
+    const openPorts = await this.mapWithConcurrency(ips, this.concurrency, async (ipAddress) => {
+      let openPort: number | null = null;
+      for (const port of ports) {
+        await this.waitForProbeSlot();
+        if (await this.checkSshPort(ipAddress, port, timeoutMs)) {
+          openPort = port;
+          break;
         }
       }
-    } catch (error) {
-      console.error("Error in subnet scanning:", error);
-    }
+      onProbed?.(ipAddress, openPort !== null);
+      return openPort;
+    });
+    return ips
+      .map((ipAddress, index) => ({ ip: ipAddress, port: openPorts[index] }))
+      .filter((host): host is OpenSshHost => host.port !== null);
+  }
+
+  /**
+   * Queries routers with SSH open for their details, a few at a time
+   * Hosts reported by a gateway source are marked as gateways
+   * @param onEnriched Called with each result as soon as it is ready
+   */
+  private async enrichDevices(
+    hosts: DiscoveredHost[],
+    onEnriched?: (result: ScanResult) => void
+  ): Promise<ScanResult[]> {
+    const results = await this.mapWithConcurrency(hosts, this.enrichConcurrency, async ({ ip: ipAddress, port, discoveredVia }) => {
+      try {
+        this.sshConnector.setPort(ipAddress, port);
+        const deviceInfo = await this.enrichDeviceWithSSHInfo(ipAddress, port);
+        const isGateway = discoveredVia.some(source => GATEWAY_SOURCES.includes(source));
+        const result: ScanResult = {
+          ip: ipAddress,
+          sshOpen: true,
+          ...(port !== 22 && { sshPort: port }),
+          discoveredVia,
+          meta: { status: 'ready', ...deviceInfo, ...(isGateway && { isGateway: true }) }
+        };
+        onEnriched?.(result);
+        return result;
+      } catch (error) {
+        console.error(`Error enriching ${ipAddress}:`, error);
+        return null;
+      }
+    });
+    return results.filter((result): result is ScanResult => result !== null);
+  }
+
+  /**
+   * Fingerprints devices without SSH by their web interface and reports the recognised ones
+   * These routers cannot be installed yet; their fingerprint says what the user has to do first
+   */
+  private async identifyClosedDevices(
+    hosts: { ip: string; discoveredVia: DiscoverySource[] }[],
+    onIdentified?: (result: ScanResult) => void
+  ): Promise<ScanResult[]> {
+    const results = await this.mapWithConcurrency(hosts, this.enrichConcurrency, async ({ ip: ipAddress, discoveredVia }) => {
+      const fingerprint = await this.fingerprinter.fingerprint(ipAddress);
+      if (fingerprint.family === 'unknown') return null;
+      
+      const isGateway = discoveredVia.some(source => GATEWAY_SOURCES.includes(source));
+      const result: ScanResult = {
+        ip: ipAddress,
+        sshOpen: false,
+        discoveredVia,
+        meta: { status: 'no-ssh', isOpenwrt: this.isOpenwrt(fingerprint), fingerprint, ...(isGateway && { isGateway: true }) }
+      };
+      onIdentified?.(result);
+      return result;
+    });
+    return results.filter((result): result is ScanResult => result !== null);
+  }
+
+  /**
+   * Runs an async worker over every item with at most `limit` running at once
+   * @returns The worker results in the same order as the items
+   */
+  private async mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const runWorker = async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await worker(items[index]);
+      }
+    };
 
-    console.log(`Scan complete, found ${results.length} routers`);
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runWorker));
     return results;
   }
 
   /**
-   * Checks if a specific IP has port 22 (SSH) open
+   * Spaces out connection attempts so a sweep never exceeds the configured probe rate
    */
-  private checkSshPort(ipAddress: string): Promise<boolean> {
+  private async waitForProbeSlot(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextProbeAt);
+    this.nextProbeAt = slot + this.probeIntervalMs;
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  /**
+   * Checks if a specific IP has an SSH port (22 by default) open
+   */
+  private checkSshPort(ipAddress: string, port: number = 22, timeoutMs: number = this.timeoutMs): Promise<boolean> {
     return new Promise((resolve) => {
       const socket = new net.Socket();
       
       // Set timeout
-      socket.setTimeout(this.timeoutMs);``
+      socket.setTimeout(timeoutMs);
       
       // Handle connection events
       socket.on('connect', () => {
@@ -284,31 +627,37 @@ export class NetworkScanner {
       });
       
       // Attempt to connect to SSH port
-      socket.connect(22, ipAddress);
+      socket.connect(port, ipAddress);
     });
   }
 
   /**
    * Expands a subnet range into individual IP addresses
+   * /31 and /32 ranges have no network or broadcast address, so every address is included
    */
   private expandSubnet(subnetRange: string): string[] {
     const ips: string[] = [];
     const [subnet, maskStr] = subnetRange.split('/');
-    const mask = parseInt(maskStr, 10);
+    const mask = maskStr === undefined ? 32 : parseInt(maskStr, 10);
     
-    if (isNaN(mask) || mask < 16 || mask > 30) {
-      console.error(`Invalid subnet mask: ${maskStr}`);
+    if (isNaN(mask) || mask < 0 || mask > 32 || !net.isIPv4(subnet)) {
+      console.error(`Invalid subnet range: ${subnetRange}`);
       return [];
     }
     
     // Calculate the number of hosts in this subnet
     const numHosts = Math.pow(2, 32 - mask);
+    if (numHosts > MAX_SCAN_HOSTS) {
+      console.error(`Subnet ${subnetRange} has ${numHosts} addresses, more than the ${MAX_SCAN_HOSTS} a scan allows`);
+      return [];
+    }
     
-    // Calculate the base address
-    const baseAddress = ip.toLong(subnet);
+    // Calculate the base address, ignoring any host bits in the range
+    const baseAddress = ip.toLong(ip.cidrSubnet(`${subnet}/${mask}`).networkAddress);
+    const [first, last] = mask >= 31 ? [0, numHosts] : [1, numHosts - 1];
     
     // Generate all IPs in the subnet
-    for (let i = 1; i < numHosts - 1; i++) {
+    for (let i = first; i < last; i++) {
       const ipLong = baseAddress + i;
       ips.push(ip.fromLong(ipLong));
     }
@@ -317,21 +666,10 @@ export class NetworkScanner {
   }
   
   /**
-   * Determines if a router is running OpenWrt based on its information
+   * Determines if a router is running OpenWrt or an OpenWrt-based firmware from its fingerprint
    */
-  private isOpenwrt(routerInfo: RouterInfo | undefined): boolean {
-    // No routerInfo means not OpenWrt
-    if (!routerInfo) {
-      return false;
-    }
-    
-    // If we have release info and it indicates OpenWrt, that's a strong signal
-    if (routerInfo.release?.distribution?.toLowerCase() === 'openwrt') {
-      return true;
-    }
-    
-    // Otherwise, having a board_name is a good indicator it might be OpenWrt
-    return true;
+  private isOpenwrt(fingerprint: DeviceFingerprint): boolean {
+    return OPENWRT_FAMILIES.includes(fingerprint.family);
   }
   
   /**
@@ -372,11 +710,23 @@ export class NetworkScanner {
     }
   }
   
+  /**
+   * Reads the TollGate OS release file using the SshConnector
+   */
+  private async getTollgateRelease(ipAddress: string): Promise<TollgateReleaseInfo | undefined> {
+    try {
+      return await this.sshConnector.getTollgateRelease(ipAddress);
+    } catch (error) {
+      console.error(`Error reading TollGate OS release from ${ipAddress}:`, error);
+      return undefined;
+    }
+  }
+  
   /**
    * Enriches a device with SSH information, including OpenWrt detection and board info
    * This extracts the common logic used for both gateway and subnet scanning
    */
-  private async enrichDeviceWithSSHInfo(ipAddress: string): Promise<Partial<ScanResult['meta']>> {
+  private async enrichDeviceWithSSHInfo(ipAddress: string, sshPort: number = 22): Promise<Partial<ScanResult['meta']>> {
     try {
       console.log(`Enriching device ${ipAddress} with SSH info`);
       
@@ -384,10 +734,15 @@ export class NetworkScanner {
       const routerInfo = await this.getRouterInfo(ipAddress);
       console.log(`Router info for ${ipAddress}:`, routerInfo);
       
+      // Routers already running TollGate OS report their version, so upgrades stand out from fresh installs
+      const tollgateRelease = routerInfo ? await this.getTollgateRelease(ipAddress) : undefined;
+      
+      // Identify the firmware from banners, and from ubus and marker files when we could log in
+      const fingerprint = await this.fingerprinter.fingerprint(ipAddress, { sshPort, routerInfo, tollgateRelease });
+      
       // If we got router info, use it to determine if it's OpenWrt and get board info
       if (routerInfo) {
-        // Use our helper function to determine if it's OpenWrt
-        const isOpenwrt = this.isOpenwrt(routerInfo);
+        const isOpenwrt = this.isOpenwrt(fingerprint);
         console.log(`Is ${ipAddress} an OpenWrt router?`, isOpenwrt);
         
         // For OpenWrt routers, we can use the routerInfo directly as boardInfo
@@ -398,7 +753,9 @@ export class NetworkScanner {
         const result = {
           isOpenwrt,
           boardInfo,
-          routerInfo
+          routerInfo,
+          fingerprint,
+          ...(tollgateRelease && { tollgateRelease })
         };
         
         console.log(`Enriched device info for ${ipAddress}:`, result);
@@ -406,7 +763,7 @@ export class NetworkScanner {
       }
       
       console.log(`No router info available for ${ipAddress}`);
-      return {};
+      return { isOpenwrt: this.isOpenwrt(fingerprint), fingerprint };
     } catch (error) {
       console.error(`Error getting router details for ${ipAddress}:`, error);
       return {};
@@ -419,11 +776,15 @@ export class NetworkScanner {
    */
   private async checkAndEnrichDevice(ipAddress: string): Promise<ScanResult | null> {
     try {
-      console.log(`Checking SSH port for ${ipAddress}...`);
-      const sshOpen = await this.checkSshPort(ipAddress);
+      // Routers found on another port by an earlier scan keep using it
+      const sshPort = this.sshConnector.getPort(ipAddress);
+      console.log(`Checking SSH port ${sshPort} for ${ipAddress}...`);
+      const sshOpen = await this.checkSshPort(ipAddress, sshPort);
       
       if (!sshOpen) {
-        return null;
+        // Stock vendor firmware may only have its web interface open
+        const [identified] = await this.identifyClosedDevices([{ ip: ipAddress, discoveredVia: ['manual'] }]);
+        return identified || null;
       }
       
       console.log(`Found router with SSH enabled: ${ipAddress}`);
@@ -432,7 +793,7 @@ export class NetworkScanner {
       let meta: ScanResult['meta'] = { status: 'ready' };
       
       // Enrich with additional device information
-      const deviceInfo = await this.enrichDeviceWithSSHInfo(ipAddress);
+      const deviceInfo = await this.enrichDeviceWithSSHInfo(ipAddress, sshPort);
       meta = { ...meta, ...deviceInfo };
       
       console.log(`Final meta object for ${ipAddress}:`, meta);
@@ -440,6 +801,8 @@ export class NetworkScanner {
       return {
         ip: ipAddress,
         sshOpen: true,
+        ...(sshPort !== 22 && { sshPort }),
+        discoveredVia: ['manual'],
         meta
       };
     } catch (error) {
@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import NDK, { NDKEvent, NostrEvent } from '@nostr-dev-kit/ndk';
+import { ReleaseVerifier } from './release-verifier';
+import { FirmwareCache } from './firmware-cache';
+import { OfflineImportResult } from '../../shared/types';
+import { compareVersions } from '../../shared/version';
+
+/**
+ * Stores signed kind-1063 release events imported from disk or USB, together with
+ * their firmware images, so releases can be installed without relays or HTTPS
+ */
+export class OfflineLibrary {
+  private readonly eventsPath: string;
+  private readonly releaseVerifier: ReleaseVerifier;
+  private readonly firmwareCache: FirmwareCache;
+  private readonly maxScanDepth: number = 3;
+  private events: Map<string, NostrEvent> = new Map();
+
+  constructor(config: { libraryDir: string; releaseVerifier: ReleaseVerifier; firmwareCache: FirmwareCache }) {
+    this.releaseVerifier = config.releaseVerifier;
+    this.firmwareCache = config.firmwareCache;
+    this.eventsPath = path.join(config.libraryDir, 'events.json');
+
+    if (!fs.existsSync(config.libraryDir)) {
+      fs.mkdirSync(config.libraryDir, { recursive: true });
+    }
+    this.loadEvents();
+  }
+
+  /**
+   * Returns all imported release events, newest version first
+   */
+  public listReleases(): NostrEvent[] {
+    const version = (event: NostrEvent) => event.tags.find(tag => tag[0] === 'tollgate_os_version')?.[1] || '';
+    return [...this.events.values()].sort(
+      (a, b) => compareVersions(version(b), version(a)) || (b.created_at || 0) - (a.created_at || 0)
+    );
+  }
+
+  /**
+   * Imports every signed release event JSON file in a folder along with its firmware image
+   * Images are looked up next to the events by hash, `filename` tag or URL file name
+   * and are only accepted when their SHA-256 matches the event's `x` tag
+   */
+  public async importFolder(folder: string): Promise<OfflineImportResult> {
+    console.log(`Importing offline library from ${folder}`);
+    const result: OfflineImportResult = { imported: 0, skipped: 0, errors: [] };
+
+    const files = this.listFiles(folder);
+    const filesByName = new Map<string, string>();
+    for (const file of files) {
+      filesByName.set(path.basename(file).toLowerCase(), file);
+    }
+
+    for (const file of files.filter(file => file.toLowerCase().endsWith('.json'))) {
+      const fileName = path.relative(folder, file);
+
+      let rawEvent: NostrEvent;
+      try {
+        rawEvent = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      } catch (error) {
+        result.errors.push({ file: fileName, error: 'Not a valid JSON file' });
+        continue;
+      }
+
+      // Ignore JSON files that are clearly not release events (e.g. manifests)
+      if (typeof rawEvent !== 'object' || rawEvent === null || rawEvent.kind === undefined) {
+        result.skipped++;
+        continue;
+      }
+
+      const verification = this.releaseVerifier.verifyEvent(new NDKEvent(new NDK(), rawEvent));
+      if (!verification.valid || !verification.event) {
+        result.errors.push({ file: fileName, error: verification.error || 'Release event could not be verified' });
+        continue;
+      }
+      const event = verification.event;
+
+      const expectedHash = event.getMatchingTags('x')?.[0]?.[1]?.toLowerCase();
+      if (!expectedHash || !/^[0-9a-f]{64}$/.test(expectedHash)) {
+        result.errors.push({ file: fileName, error: 'Release event has no SHA-256 hash (x tag)' });
+        continue;
+      }
+
+      const blobPath = this.findBlob(event, expectedHash, filesByName);
+      if (!blobPath) {
+        result.errors.push({ file: fileName, error: `Firmware image ${expectedHash} not found in folder` });
+        continue;
+      }
+
+      try {
+        const actualHash = await this.firmwareCache.importFile(blobPath, expectedHash, true);
+        if (actualHash !== expectedHash) {
+          result.errors.push({
+            file: fileName,
+            error: `Firmware image ${path.basename(blobPath)} does not match the release hash`
+          });
+          continue;
+        }
+      } catch (error) {
+        result.errors.push({
+          file: fileName,
+          error: `Failed to import firmware image: ${error instanceof Error ? error.message : String(error)}`
+        });
+        continue;
+      }
+
+      this.events.set(event.id, event.rawEvent() as NostrEvent);
+      result.imported++;
+      console.log(`Imported offline release ${event.id} from ${fileName}`);
+    }
+
+    this.saveEvents();
+    console.log(`Offline import complete: ${result.imported} imported, ${result.errors.length} failed`);
+    return result;
+  }
+
+  /**
+   * Finds the firmware image for a release among the files of the imported folder
+   */
+  private findBlob(event: NDKEvent, sha256: string, filesByName: Map<string, string>): string | undefined {
+    const candidates = [`${sha256}.bin`, sha256];
+
+    const filename = event.getMatchingTags('filename')?.[0]?.[1];
+    if (filename) {
+      candidates.push(path.basename(filename));
+    }
+
+    const url = event.getMatchingTags('url')?.[0]?.[1];
+    if (url) {
+      candidates.push(url.split('/').pop() || '');
+    }
+
+    for (const candidate of candidates) {
+      const match = candidate && filesByName.get(candidate.toLowerCase());
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Lists files in a folder and its subfolders, up to a fixed depth
+   */
+  private listFiles(folder: string, depth: number = 0): string[] {
+    const files: string[] = [];
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(folder, { withFileTypes: true });
+    } catch (error) {
+      console.error(`Error reading offline library folder ${folder}:`, error);
+      return files;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(folder, entry.name);
+      if (entry.isDirectory() && depth < this.maxScanDepth) {
+        files.push(...this.listFiles(fullPath, depth + 1));
+      } else if (entry.isFile()) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+
+  private loadEvents(): void {
+    try {
+      if (!fs.existsSync(this.eventsPath)) return;
+      const events: NostrEvent[] = JSON.parse(fs.readFileSync(this.eventsPath, 'utf-8'));
+      this.events = new Map(events.filter(event => event.id).map(event => [event.id!, event]));
+    } catch (error) {
+      console.error('Error reading offline library, starting empty:', error);
+      this.events = new Map();
+    }
+  }
+
+  private saveEvents(): void {
+    try {
+      fs.writeFileSync(this.eventsPath, JSON.stringify(this.listReleases(), null, 2));
+    } catch (error) {
+      console.error('Error writing offline library:', error);
+    }
+  }
+}
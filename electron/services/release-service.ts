@@ -0,0 +1,346 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import WebSocket from 'ws';
+import NDK, {
+  NDKEvent,
+  NDKFilter,
+  NDKRelay,
+  NDKRelayStatus,
+  NDKSubscription,
+  NostrEvent,
+  normalizeRelayUrl
+} from '@nostr-dev-kit/ndk';
+import { ReleaseVerifier, RELEASE_EVENT_KIND } from './release-verifier';
+import { RelayHealth } from '../../shared/types';
+import { compareVersions } from '../../shared/version';
+
+type ReleasesListener = (releases: NostrEvent[]) => void;
+type RelayHealthListener = (health: RelayHealth[]) => void;
+
+// First TollGate OS release event; older kind-1063 events from the publisher are not releases
+const RELEASES_SINCE = 1747216016;
+// How long to wait for relays to connect before reporting the ones that did not
+const RELAY_CONNECT_TIMEOUT_MS = 5000;
+// Longest a first listReleases call waits for relays when nothing is cached yet
+const INITIAL_SYNC_TIMEOUT_MS = 10000;
+// Relays send stored events in bursts; listeners hear about a burst once
+const NOTIFY_DELAY_MS = 250;
+
+// NDK opens relay connections with the global WebSocket, which Node does not have
+if (typeof globalThis.WebSocket === 'undefined') {
+  (globalThis as unknown as { WebSocket: typeof WebSocket }).WebSocket = WebSocket;
+}
+
+// NDK keys relays by normalized URL ("wss://nos.lol/"); fall back to the URL as typed if it cannot be normalized
+const getRelayKey = (url: string): string => {
+  try {
+    return normalizeRelayUrl(url);
+  } catch (error) {
+    return url;
+  }
+};
+
+const getVersion = (event: NostrEvent): string =>
+  event.tags.find(tag => tag[0] === 'tollgate_os_version')?.[1] || '';
+
+/**
+ * Fetches TollGate OS release events (kind 1063) from Nostr relays for the whole app
+ * Events are verified before they are listed and cached on disk, so releases show up
+ * straight away on the next start, even before any relay has answered
+ */
+export class ReleaseService {
+  private readonly releaseVerifier: ReleaseVerifier;
+  private readonly cachePath: string;
+  private relayUrls: string[];
+  private events: Map<string, NostrEvent> = new Map();
+  private relayHealth: Map<string, RelayHealth> = new Map();
+  private releasesListeners: Set<ReleasesListener> = new Set();
+  private relayHealthListeners: Set<RelayHealthListener> = new Set();
+  private ndk?: NDK;
+  private subscription?: NDKSubscription;
+  private initialSync: Promise<void> = Promise.resolve();
+  private notifyTimer?: NodeJS.Timeout;
+
+  /**
+   * @param config.cachePath JSON file verified release events are kept in between sessions
+   * @param config.relayUrls Relays to fetch releases from
+   */
+  constructor(config: { releaseVerifier: ReleaseVerifier; cachePath: string; relayUrls: string[] }) {
+    this.releaseVerifier = config.releaseVerifier;
+    this.cachePath = config.cachePath;
+    this.relayUrls = config.relayUrls;
+    this.loadCache();
+  }
+
+  /**
+   * Connects to the relays and keeps listening for new releases until stopped
+   */
+  public start(): void {
+    const ndk = new NDK({ explicitRelayUrls: this.relayUrls });
+    this.ndk = ndk;
+    this.initialSync = this.connect(ndk);
+  }
+
+  /**
+   * Disconnects from the relays; the cached releases stay available
+   */
+  public stop(): void {
+    if (!this.ndk) return;
+    console.log('Release service: disconnecting from relays');
+    const ndk = this.ndk;
+    this.ndk = undefined;
+    this.subscription?.stop();
+    this.subscription = undefined;
+    // Late events from the old pool must not touch the health of the next one
+    ndk.pool.removeAllListeners();
+    ndk.pool.relays.forEach(relay => relay.disconnect());
+  }
+
+  /**
+   * Switches to a new relay list, e.g. after the user changed it in the settings
+   */
+  public setRelayUrls(relayUrls: string[]): void {
+    if (relayUrls.length === this.relayUrls.length && relayUrls.every((url, i) => url === this.relayUrls[i])) {
+      return;
+    }
+    this.relayUrls = [...relayUrls];
+    this.stop();
+    this.start();
+  }
+
+  /**
+   * Returns the verified releases, newest version first
+   * When nothing is cached yet, waits for the relays' stored events first
+   */
+  public async listReleases(): Promise<NostrEvent[]> {
+    if (this.events.size === 0) {
+      await this.initialSync;
+    }
+    return this.getSortedReleases();
+  }
+
+  /**
+   * Subscribes to changes of the release list; returns a function that unsubscribes
+   */
+  public onReleasesChanged(listener: ReleasesListener): () => void {
+    this.releasesListeners.add(listener);
+    return () => {
+      this.releasesListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Returns how each configured relay is doing, in the order the relays are configured
+   */
+  public getRelayHealth(): RelayHealth[] {
+    return this.relayUrls.map(url => {
+      const key = getRelayKey(url);
+      return { ...(this.relayHealth.get(key) || { url: key, state: 'connecting' as const, releaseEvents: 0 }) };
+    });
+  }
+
+  /**
+   * Subscribes to relay health changes; returns a function that unsubscribes
+   */
+  public onRelayHealthChanged(listener: RelayHealthListener): () => void {
+    this.relayHealthListeners.add(listener);
+    return () => {
+      this.relayHealthListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Connects, subscribes to release events and resolves once the relays sent their stored events
+   */
+  private async connect(ndk: NDK): Promise<void> {
+    const isCurrent = () => this.ndk === ndk;
+    // When each relay's current connection attempt started, and the release events it has sent
+    const connectStartedAt = new Map<string, number>();
+    const eventIdsByRelay = new Map<string, Set<string>>();
+
+    const updateHealth = (url: string, changes: Partial<RelayHealth>) => {
+      if (!isCurrent()) return;
+      const current = this.relayHealth.get(url) || { url, state: 'connecting' as const, releaseEvents: 0 };
+      this.relayHealth.set(url, { ...current, ...changes });
+      this.notifyRelayHealth();
+    };
+
+    console.log('Release service: connecting to relays', this.relayUrls);
+    const relayKeys = this.relayUrls.map(getRelayKey);
+    const now = Date.now();
+    relayKeys.forEach(key => connectStartedAt.set(key, now));
+    this.relayHealth = new Map(relayKeys.map(key => [key, { url: key, state: 'connecting', releaseEvents: 0 }]));
+    this.notifyRelayHealth();
+
+    ndk.pool.on('relay:connecting', (relay: NDKRelay) => {
+      connectStartedAt.set(relay.url, Date.now());
+      updateHealth(relay.url, { state: 'connecting' });
+    });
+    ndk.pool.on('relay:connect', (relay: NDKRelay) => {
+      const startedAt = connectStartedAt.get(relay.url);
+      updateHealth(relay.url, {
+        state: 'connected',
+        latencyMs: startedAt ? Date.now() - startedAt : undefined,
+        lastError: undefined
+      });
+    });
+    ndk.pool.on('relay:disconnect', (relay: NDKRelay) => {
+      updateHealth(relay.url, { state: 'disconnected' });
+    });
+
+    try {
+      await ndk.connect(RELAY_CONNECT_TIMEOUT_MS);
+    } catch (error) {
+      console.error('Release service: error connecting to relays:', error);
+    }
+    if (!isCurrent()) return;
+
+    // Relays that have not connected by now are most likely unreachable
+    relayKeys.forEach(key => {
+      const relay = ndk.pool.relays.get(key);
+      if (!relay || relay.status < NDKRelayStatus.CONNECTED) {
+        updateHealth(key, {
+          state: 'disconnected',
+          lastError: `Did not connect within ${RELAY_CONNECT_TIMEOUT_MS / 1000} s`
+        });
+      }
+    });
+
+    const filter: NDKFilter = {
+      kinds: [RELEASE_EVENT_KIND],
+      authors: this.releaseVerifier.getTrustedPubkeys(),
+      since: RELEASES_SINCE
+    };
+
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(() => {
+        console.warn(`Release service: relays did not finish sending releases within ${INITIAL_SYNC_TIMEOUT_MS / 1000} s`);
+        resolve();
+      }, INITIAL_SYNC_TIMEOUT_MS);
+
+      const subscription = ndk.subscribe(filter, { closeOnEose: false });
+      this.subscription = subscription;
+
+      // Count the distinct releases each relay serves
+      const countRelayEvent = (eventId: string, relay?: NDKRelay) => {
+        if (!relay) return;
+        const eventIds = eventIdsByRelay.get(relay.url) || new Set<string>();
+        eventIds.add(eventId);
+        eventIdsByRelay.set(relay.url, eventIds);
+        updateHealth(relay.url, { releaseEvents: eventIds.size });
+      };
+
+      subscription.on('event', (event: NDKEvent, relay?: NDKRelay) => {
+        if (!isCurrent() || !this.addEvent(event)) return;
+        countRelayEvent(event.id, relay);
+      });
+
+      // NDK reports a release once; every later copy from another relay arrives as a duplicate,
+      // which only counts for that relay when its own copy verifies too
+      subscription.on('event:dup', (event: NDKEvent | NostrEvent, relay?: NDKRelay) => {
+        if (!isCurrent() || !event.id || !this.events.has(event.id) || !this.isVerifiedCopy(event)) return;
+        countRelayEvent(event.id, relay);
+      });
+
+      subscription.on('eose', () => {
+        clearTimeout(timeout);
+        console.log(`Release service: relays sent their stored releases, ${this.events.size} known`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Verifies a release event and lists it if it is new
+   * @returns Whether the event is a verified release
+   */
+  private addEvent(event: NDKEvent): boolean {
+    // The same release arrives from every relay that has it, and is listed already when it came from the cache
+    if (this.events.has(event.id)) return this.isVerifiedCopy(event);
+
+    const verification = this.releaseVerifier.verifyEvent(event);
+    if (!verification.valid) {
+      console.warn(`Release service: ignoring release event ${event.id}: ${verification.error}`);
+      return false;
+    }
+
+    this.events.set(event.id, event.rawEvent() as NostrEvent);
+    this.scheduleReleasesChanged();
+    return true;
+  }
+
+  /**
+   * Checks a relay's copy of a listed release, which may have come from the cache, against the verified signature
+   * NDK remembers verified signatures by event id, so a copy with a different signature cannot be
+   * re-verified here and is not counted
+   */
+  private isVerifiedCopy(event: NDKEvent | NostrEvent): boolean {
+    const listed = event.id ? this.events.get(event.id) : undefined;
+    if (!listed || !event.sig || event.sig !== listed.sig) {
+      console.warn(`Release service: ignoring a copy of release ${event.id} whose signature differs from the verified one`);
+      return false;
+    }
+    return true;
+  }
+
+  private getSortedReleases(): NostrEvent[] {
+    return [...this.events.values()].sort(
+      (a, b) => compareVersions(getVersion(b), getVersion(a)) || (b.created_at || 0) - (a.created_at || 0)
+    );
+  }
+
+  private scheduleReleasesChanged(): void {
+    if (this.notifyTimer) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = undefined;
+      this.saveCache();
+      const releases = this.getSortedReleases();
+      for (const listener of this.releasesListeners) {
+        try {
+          listener(releases);
+        } catch (error) {
+          console.warn('Error notifying release listener:', error);
+        }
+      }
+    }, NOTIFY_DELAY_MS);
+  }
+
+  private notifyRelayHealth(): void {
+    const health = this.getRelayHealth();
+    for (const listener of this.relayHealthListeners) {
+      try {
+        listener(health);
+      } catch (error) {
+        console.warn('Error notifying relay health listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Loads cached release events, verifying them again in case the file was edited
+   */
+  private loadCache(): void {
+    try {
+      if (!fs.existsSync(this.cachePath)) return;
+      const rawEvents: NostrEvent[] = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8'));
+      for (const rawEvent of rawEvents) {
+        const verification = this.releaseVerifier.verifyEvent(new NDKEvent(new NDK(), rawEvent));
+        if (verification.valid && verification.event) {
+          this.events.set(verification.event.id, rawEvent);
+        }
+      }
+      console.log(`Release service: loaded ${this.events.size} cached releases`);
+    } catch (error) {
+      console.error('Error reading release cache:', error);
+    }
+  }
+
+  private saveCache(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(this.cachePath, JSON.stringify([...this.events.values()], null, 2));
+    } catch (error) {
+      console.error('Error writing release cache:', error);
+    }
+  }
+}
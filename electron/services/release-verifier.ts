@@ -0,0 +1,84 @@
+import NDK, { NDKEvent } from '@nostr-dev-kit/ndk';
+
+// Publisher key of the official TollGate OS release events
+export const TOLLGATE_OS_PUBKEY = '5075e61f0b048148b60105c1dd72bbeae1957336ae5824087e52efa374f8416a';
+export const RELEASE_EVENT_KIND = 1063; // NIP-94 kind for file metadata
+
+export interface ReleaseVerification {
+  valid: boolean;
+  event?: NDKEvent;
+  error?: string;
+}
+
+export class ReleaseVerifier {
+  private readonly trustedPubkeys: Set<string>;
+
+  constructor(config?: { trustedPubkeys?: string[] }) {
+    const pubkeys = config?.trustedPubkeys?.length ? config.trustedPubkeys : [TOLLGATE_OS_PUBKEY];
+    this.trustedPubkeys = new Set(pubkeys.map(pubkey => pubkey.toLowerCase()));
+  }
+
+  /**
+   * Returns the publisher pubkeys whose release events are trusted
+   */
+  public getTrustedPubkeys(): string[] {
+    return [...this.trustedPubkeys];
+  }
+
+  /**
+   * Deserializes a release event and checks its id, Schnorr signature and author
+   * Events must be serialized with both signature and id included
+   */
+  public verify(serializedEvent: string): ReleaseVerification {
+    let event: NDKEvent;
+    try {
+      event = NDKEvent.deserialize(new NDK(), serializedEvent);
+    } catch (error) {
+      return {
+        valid: false,
+        error: `Release event could not be parsed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+
+    return this.verifyEvent(event);
+  }
+
+  /**
+   * Checks an already deserialized release event
+   */
+  public verifyEvent(event: NDKEvent): ReleaseVerification {
+    if (!event.validate()) {
+      return { valid: false, error: 'Release event is malformed' };
+    }
+
+    if (event.kind !== RELEASE_EVENT_KIND) {
+      return { valid: false, error: `Unexpected event kind ${event.kind}, expected ${RELEASE_EVENT_KIND}` };
+    }
+
+    if (!this.trustedPubkeys.has(event.pubkey.toLowerCase())) {
+      return { valid: false, error: `Release event was published by an untrusted key: ${event.pubkey}` };
+    }
+
+    // The id must be the hash of the event contents, otherwise the signature proves nothing
+    if (!event.id || event.id !== event.getEventHash()) {
+      return { valid: false, error: 'Release event id does not match its contents' };
+    }
+
+    if (!event.sig) {
+      return { valid: false, error: 'Release event is not signed' };
+    }
+
+    try {
+      if (event.verifySignature(false) !== true) {
+        return { valid: false, error: 'Release event signature is invalid' };
+      }
+    } catch (error) {
+      return {
+        valid: false,
+        error: `Release event signature could not be verified: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+
+    return { valid: true, event };
+  }
+}
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ScanProfile } from '../../shared/types';
+
+export const DEFAULT_SCAN_PROFILE_ID = 'default';
+
+// Largest number of addresses a single profile may sweep (a /14)
+export const MAX_SCAN_HOSTS = 262144;
+
+const DEFAULT_PROFILE: ScanProfile = {
+  id: DEFAULT_SCAN_PROFILE_ID,
+  name: 'Default',
+  cidrs: ['192.168.8.0/24', '192.168.1.0/24'],
+  hosts: [],
+  ports: [22],
+  timeoutMs: 300,
+  includeGateways: true
+};
+
+/**
+ * Persists named scan profiles so lab and field teams can target their own addressing plans
+ * The default profile always exists; it can be edited but not deleted
+ */
+export class ScanProfileStore {
+  private readonly storePath: string;
+  private profiles: Map<string, ScanProfile> = new Map();
+
+  constructor(config: { storePath: string }) {
+    this.storePath = config.storePath;
+    this.load();
+  }
+
+  /**
+   * Returns all profiles, the default profile first
+   */
+  public list(): ScanProfile[] {
+    return [...this.profiles.values()].sort((a, b) => {
+      if (a.id === DEFAULT_SCAN_PROFILE_ID) return -1;
+      if (b.id === DEFAULT_SCAN_PROFILE_ID) return 1;
+      return a.name.localeCompare(b.name);
+    });
+  }
+
+  /**
+   * Returns the profile with the given id, falling back to the default profile
+   */
+  public get(id?: string): ScanProfile {
+    return (id && this.profiles.get(id)) || this.profiles.get(DEFAULT_SCAN_PROFILE_ID) || DEFAULT_PROFILE;
+  }
+
+  /**
+   * Creates or updates a profile after validating its targets
+   * @throws If the profile has no name, an invalid CIDR, host or port, or too many addresses
+   */
+  public save(profile: ScanProfile): ScanProfile {
+    const normalized: ScanProfile = {
+      id: profile.id || randomUUID(),
+      name: profile.name.trim(),
+      cidrs: profile.cidrs.map(cidr => cidr.trim()).filter(Boolean),
+      hosts: profile.hosts.map(host => host.trim()).filter(Boolean),
+      ports: [...new Set(profile.ports)],
+      timeoutMs: Math.round(profile.timeoutMs),
+      includeGateways: profile.includeGateways
+    };
+
+    ScanProfileStore.validate(normalized);
+    this.profiles.set(normalized.id, normalized);
+    this.saveProfiles();
+    console.log(`Saved scan profile "${normalized.name}" (${normalized.id})`);
+    return normalized;
+  }
+
+  /**
+   * Deletes a profile; the default profile cannot be deleted
+   */
+  public remove(id: string): void {
+    if (id === DEFAULT_SCAN_PROFILE_ID) {
+      throw new Error('The default scan profile cannot be deleted');
+    }
+    if (this.profiles.delete(id)) {
+      this.saveProfiles();
+    }
+  }
+
+  /**
+   * Counts the addresses a CIDR covers, including network and broadcast for /31 and /32
+   */
+  public static countHosts(cidr: string): number {
+    const prefix = Number(cidr.split('/')[1]);
+    const size = Math.pow(2, 32 - prefix);
+    return prefix >= 31 ? size : size - 2;
+  }
+
+  private static validate(profile: ScanProfile): void {
+    if (!profile.name) {
+      throw new Error('A scan profile needs a name');
+    }
+    if (profile.cidrs.length === 0 && profile.hosts.length === 0 && !profile.includeGateways) {
+      throw new Error('A scan profile needs at least one CIDR, host or the gateway scan');
+    }
+
+    for (const cidr of profile.cidrs) {
+      const [address, prefix, extra] = cidr.split('/');
+      const prefixLength = Number(prefix);
+      if (extra !== undefined || !net.isIPv4(address) || !/^\d{1,2}$/.test(prefix || '') || prefixLength > 32) {
+        throw new Error(`"${cidr}" is not a valid IPv4 CIDR such as 192.168.1.0/24`);
+      }
+    }
+
+    const totalHosts = profile.cidrs.reduce((sum, cidr) => sum + ScanProfileStore.countHosts(cidr), 0);
+    if (totalHosts > MAX_SCAN_HOSTS) {
+      throw new Error(`The profile covers ${totalHosts} addresses; the limit is ${MAX_SCAN_HOSTS} (a /14)`);
+    }
+
+    for (const host of profile.hosts) {
+      if (!net.isIP(host)) {
+        throw new Error(`"${host}" is not a valid IPv4 or IPv6 address`);
+      }
+      if (/^fe80:/i.test(host) && !host.includes('%')) {
+        throw new Error(`"${host}" is link-local and needs a zone ID, e.g. fe80::1%eth0`);
+      }
+    }
+
+    if (profile.ports.length === 0) {
+      throw new Error('A scan profile needs at least one SSH port');
+    }
+    for (const port of profile.ports) {
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`${port} is not a valid port`);
+      }
+    }
+
+    if (!Number.isFinite(profile.timeoutMs) || profile.timeoutMs < 50 || profile.timeoutMs > 10000) {
+      throw new Error('The probe timeout must be between 50 and 10000 ms');
+    }
+  }
+
+  private load(): void {
+    this.profiles = new Map([[DEFAULT_SCAN_PROFILE_ID, { ...DEFAULT_PROFILE }]]);
+    try {
+      if (!fs.existsSync(this.storePath)) return;
+      const stored: ScanProfile[] = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+      for (const profile of stored) {
+        this.profiles.set(profile.id, profile);
+      }
+    } catch (error) {
+      console.error('Error reading scan profiles, using defaults:', error);
+    }
+  }
+
+  private saveProfiles(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+      fs.writeFileSync(this.storePath, JSON.stringify(this.list(), null, 2));
+    } catch (error) {
+      console.error('Error writing scan profiles:', error);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppSettings } from '../../shared/types';
+import { RELEASE_CHANNELS } from '../../shared/release-channel';
+
+// Relays the TollGate OS publisher is known to post releases to
+export const DEFAULT_RELAY_URLS = [
+  'wss://relay.damus.io',
+  'wss://relay.tollgate.me',
+  'wss://nos.lol',
+  'wss://nostr.mom',
+  'wss://relay.nostr.band'
+];
+
+const DEFAULT_SETTINGS: AppSettings = {
+  defaultReleaseChannel: 'stable',
+  relayUrls: DEFAULT_RELAY_URLS
+};
+
+/**
+ * Persists this workstation's settings, such as the release channel it follows and the relays it uses
+ */
+export class SettingsStore {
+  private readonly storePath: string;
+  private settings: AppSettings = { ...DEFAULT_SETTINGS };
+
+  constructor(config: { storePath: string }) {
+    this.storePath = config.storePath;
+    this.load();
+  }
+
+  public get(): AppSettings {
+    return { ...this.settings, relayUrls: [...this.settings.relayUrls] };
+  }
+
+  /**
+   * Changes some settings and saves them
+   * @throws If a setting has an invalid value
+   */
+  public update(changes: Partial<AppSettings>): AppSettings {
+    const updated: AppSettings = { ...this.settings, ...changes };
+    if (changes.relayUrls) {
+      updated.relayUrls = [...new Set(changes.relayUrls.map(url => url.trim()).filter(Boolean))];
+    }
+    SettingsStore.validate(updated);
+    this.settings = updated;
+    this.saveSettings();
+    console.log('Saved settings:', updated);
+    return this.get();
+  }
+
+  private static validate(settings: AppSettings): void {
+    if (!RELEASE_CHANNELS.includes(settings.defaultReleaseChannel)) {
+      throw new Error(`"${settings.defaultReleaseChannel}" is not a release channel; use ${RELEASE_CHANNELS.join(', ')}`);
+    }
+    if (!Array.isArray(settings.relayUrls) || settings.relayUrls.length === 0) {
+      throw new Error('At least one relay is needed to load releases');
+    }
+    for (const url of settings.relayUrls) {
+      let protocol: string;
+      try {
+        protocol = new URL(url).protocol;
+      } catch (error) {
+        throw new Error(`"${url}" is not a valid relay URL`);
+      }
+      if (protocol !== 'wss:' && protocol !== 'ws:') {
+        throw new Error(`"${url}" is not a relay URL; relays start with wss://`);
+      }
+    }
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.storePath)) return;
+      const stored = { ...DEFAULT_SETTINGS, ...JSON.parse(fs.readFileSync(this.storePath, 'utf-8')) };
+      SettingsStore.validate(stored);
+      this.settings = stored;
+    } catch (error) {
+      console.error('Error reading settings, using defaults:', error);
+    }
+  }
+
+  private saveSettings(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+      fs.writeFileSync(this.storePath, JSON.stringify(this.settings, null, 2));
+    } catch (error) {
+      console.error('Error writing settings:', error);
+    }
+  }
+}
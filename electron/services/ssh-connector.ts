@@ -1,56 +1,71 @@
-import { Client, SFTPWrapper } from 'ssh2';
+import { Client, ConnectConfig, utils } from 'ssh2';
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import * as net from 'net';
+import { HostKeyStore } from './host-key-store';
+import { RouterInfo, SshCredentials, TollgateReleaseInfo } from '../../shared/types';
+import { pipeline } from 'stream/promises';
+
+export const TOLLGATE_RELEASE_PATH = '/etc/tollgate/release.json';
 
 export interface LoginAttempt {
   ip: string;
   success: boolean;
   error?: string;
+  // Set when the router presented a different host key than the one pinned for it
+  hostKeyChanged?: boolean;
 }
 
-export interface RouterReleaseInfo {
-  distribution: string;
-  version: string;
-  revision: string;
-  target?: string;
-  description?: string;
-}
-
-export interface RouterInfo {
-  kernel?: string;
-  hostname?: string;
-  system?: string;
-  model?: string;
-  board_name: string;
-  release?: RouterReleaseInfo;
+interface SshSession {
+  client?: Client;
+  // Number of callers (e.g. running installs) currently holding the session open
+  refs: number;
+  idleTimer?: NodeJS.Timeout;
+  // Reconnect in progress; concurrent callers share it instead of each opening a client
+  connecting?: Promise<Client>;
 }
 
+/**
+ * Manages one SSH session per router, shared by every service in the main process
+ * Sessions are reference counted, closed after a period without use, and re-established
+ * on demand with the password or key the user already supplied
+ */
 export class SshConnector {
-  private connections: Map<string, Client> = new Map();
+  private sessions: Map<string, SshSession> = new Map();
+  private credentials: Map<string, SshCredentials> = new Map();
+  private ports: Map<string, number> = new Map();
+  private readonly authorizedKeysPath: string = '/etc/dropbear/authorized_keys';
   private readonly username: string = 'root';
   private readonly connectionTimeout: number = 10000; // 10 seconds
+  private readonly idleTimeoutMs: number;
+  private readonly hostKeyStore: HostKeyStore;
+  private rejectedHostKeys: Set<string> = new Set();
+
+  constructor(config?: { idleTimeoutMs?: number; hostKeyStore?: HostKeyStore }) {
+    this.idleTimeoutMs = config?.idleTimeoutMs || 60000; // Default: close after a minute without use
+    this.hostKeyStore = config?.hostKeyStore || new HostKeyStore();
+  }
 
   /**
    * Attempts to establish an SSH connection to the specified IP
-   * First tries with no password, then with the provided password if specified
+   * An open session is reused unless different credentials are supplied
+   * The credentials are remembered so later reconnects can authenticate without asking again
+   * @param credentials A password, or a private key file and/or the SSH agent
    */
-  public async connect(ip: string, password?: string): Promise<LoginAttempt> {
-    console.log(`Attempting to connect to ${ip} via SSH with${password ? '' : 'out'} password`);
+  public async connect(ip: string, credentials?: string | SshCredentials): Promise<LoginAttempt> {
+    const auth: SshCredentials = typeof credentials === 'string' ? { password: credentials } : (credentials || {});
+    console.log(`Attempting to connect to ${ip} via SSH with ${this.describeCredentials(auth)}`);
+    
+    const session = this.sessions.get(ip);
+    if (session?.client && (!this.hasCredentials(auth) || this.sameCredentials(auth, this.credentials.get(ip)))) {
+      console.log(`Reusing existing SSH session to ${ip}`);
+      this.touch(ip);
+      return { ip, success: true };
+    }
+    
     try {
-      // Close any existing connection to this IP
-      await this.closeConnection(ip);
-      
-      // Create a new SSH client
-      const client = new Client();
-      
-      // Connect to the router
-      console.log(`Connecting to router at ${ip}...`);
-      await this.connectClient(client, ip, password);
-      
-      // Store the connection for later use
-      this.connections.set(ip, client);
+      await this.openClient(ip, auth);
+      this.credentials.set(ip, auth);
       console.log(`Successfully connected to ${ip} via SSH`);
       
       return {
@@ -62,50 +77,112 @@ export class SshConnector {
       return {
         ip,
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        hostKeyChanged: this.rejectedHostKeys.has(ip) || undefined
       };
     }
   }
 
+  /**
+   * Holds the session to a router open until release is called
+   * Used by long-running work such as installs so the idle timeout never closes it midway
+   */
+  public acquire(ip: string): void {
+    const session = this.getSession(ip);
+    session.refs++;
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = undefined;
+    }
+  }
+
+  /**
+   * Releases a session held with acquire; it is closed once idle for the idle timeout
+   */
+  public release(ip: string): void {
+    const session = this.sessions.get(ip);
+    if (!session) return;
+    session.refs = Math.max(0, session.refs - 1);
+    this.touch(ip);
+  }
+
+  /**
+   * Adds a public key to the router's dropbear authorized_keys so later sessions need no password
+   * @param ip Router IP address
+   * @param keyPath A public key file, or a private key file whose public half should be installed
+   * @param passphrase Passphrase for an encrypted private key when no .pub file sits next to it
+   */
+  public async installAuthorizedKey(ip: string, keyPath: string, passphrase?: string): Promise<void> {
+    const publicKey = this.readPublicKey(keyPath, passphrase ?? this.credentials.get(ip)?.passphrase);
+    const file = this.shellQuote(this.authorizedKeysPath);
+    const line = this.shellQuote(publicKey);
+    
+    console.log(`Installing public key from ${keyPath} on ${ip}`);
+    const output = await this.executeRemoteCommand(
+      ip,
+      `mkdir -p ${this.shellQuote(path.posix.dirname(this.authorizedKeysPath))} && touch ${file} && chmod 600 ${file} && ` +
+      `(grep -qxF ${line} ${file} || echo ${line} >> ${file}) && echo key-installed`
+    );
+    
+    if (!output.includes('key-installed')) {
+      throw new Error(`Could not write ${this.authorizedKeysPath} on ${ip}`);
+    }
+  }
+
+  /**
+   * Records the SSH port a router answered on during a scan; port 22 is used otherwise
+   */
+  public setPort(ip: string, port: number): void {
+    if (port === 22) {
+      this.ports.delete(ip);
+    } else {
+      this.ports.set(ip, port);
+    }
+  }
+
+  public getPort(ip: string): number {
+    return this.ports.get(ip) || 22;
+  }
+
+  /**
+   * Lets the router present a new host key, as it will after being flashed
+   * The new key is pinned on the next connection; call clearExpectedHostKeyChange when done
+   */
+  public expectHostKeyChange(ip: string): void {
+    this.hostKeyStore.expectKeyChange(ip);
+  }
+
+  public clearExpectedHostKeyChange(ip: string): void {
+    this.hostKeyStore.clearExpectedKeyChange(ip);
+  }
+
+  /**
+   * Drops the pinned host key for a router the user knows was reset or reflashed elsewhere
+   */
+  public forgetHostKey(ip: string): void {
+    this.hostKeyStore.forget(ip);
+    this.rejectedHostKeys.delete(ip);
+  }
+
   /**
    * Gets information about the connected router using 'ubus call system board'
    */
   public async getRouterInfo(ip: string): Promise<RouterInfo | undefined> {
     try {
       console.log(`Getting router info for ${ip} in SSH connector`);
-      let client = this.connections.get(ip);
-      
-      // If no connection exists, try to establish one before proceeding
-      if (!client) {
-        console.log(`No existing SSH connection to ${ip}, attempting to reconnect...`);
-        const reconnectResult = await this.connect(ip, '');
-        console.log(`Reconnect result for ${ip}:`, reconnectResult);
-        
-        if (!reconnectResult.success) {
-          console.error(`Failed to reconnect to ${ip}: ${reconnectResult.error}`);
-          // Return placeholder data but mark as incompatible
-          return undefined;
-        }
-        
-        // Get the newly established connection
-        client = this.connections.get(ip);
-        if (!client) {
-          throw new Error(`Connection established but client not found for ${ip}`);
-        }
-      }
 
       console.log(`Executing 'ubus call system board' for ${ip}`);
       // Execute the ubus command to get board info
-      const ubusOutput = await this.executeCommand(
-        client,
-        "ubus call system board"
-      );
+      const ubusOutput = await this.executeRemoteCommand(ip, "ubus call system board");
       console.log(`ubus output for ${ip}:`, ubusOutput);
       
       // Try to parse the JSON output
       try {
         const boardInfo = JSON.parse(ubusOutput);
         console.log(`Parsed board info for ${ip}:`, boardInfo);
+        if (boardInfo?.board_name) {
+          this.hostKeyStore.setBoard(ip, boardInfo.board_name);
+        }
         return boardInfo;
       } catch (jsonError) {
         console.error(`Error parsing ubus output for ${ip}:`, jsonError);
@@ -119,13 +196,35 @@ export class SshConnector {
   }
 
   /**
-   * Closes an SSH connection to a specific IP
+   * Reads the TollGate OS release file
+   * @returns The release, or undefined when the router is not running TollGate OS
+   */
+  public async getTollgateRelease(ip: string): Promise<TollgateReleaseInfo | undefined> {
+    const output = await this.executeRemoteCommand(ip, `cat ${TOLLGATE_RELEASE_PATH} 2>/dev/null || true`);
+    if (!output.trim()) {
+      return undefined;
+    }
+    
+    try {
+      const release = JSON.parse(output);
+      const version = release.version || release.tollgate_os_version;
+      return { ...release, version: typeof version === 'string' ? version : 'unknown' };
+    } catch (error) {
+      // The file exists, so this is TollGate OS even if we cannot tell which version
+      console.error(`Error parsing ${TOLLGATE_RELEASE_PATH} on ${ip}:`, error);
+      return { version: 'unknown' };
+    }
+  }
+
+  /**
+   * Closes an SSH connection to a specific IP, regardless of who is holding it
    */
   public async closeConnection(ip: string): Promise<void> {
-    const client = this.connections.get(ip);
-    if (client) {
-      client.end();
-      this.connections.delete(ip);
+    const session = this.sessions.get(ip);
+    if (session) {
+      if (session.idleTimer) clearTimeout(session.idleTimer);
+      session.client?.end();
+      this.sessions.delete(ip);
     }
   }
 
@@ -133,27 +232,120 @@ export class SshConnector {
    * Closes all active SSH connections
    */
   public async closeAllConnections(): Promise<void> {
-    for (const [ip, client] of this.connections.entries()) {
-      client.end();
+    for (const session of this.sessions.values()) {
+      if (session.idleTimer) clearTimeout(session.idleTimer);
+      session.client?.end();
+    }
+    this.sessions.clear();
+  }
+
+  private getSession(ip: string): SshSession {
+    let session = this.sessions.get(ip);
+    if (!session) {
+      session = { refs: 0 };
+      this.sessions.set(ip, session);
+    }
+    return session;
+  }
+
+  /**
+   * Restarts the idle timer of a session that nobody is holding
+   */
+  private touch(ip: string): void {
+    const session = this.sessions.get(ip);
+    if (!session || session.refs > 0) return;
+    
+    if (session.idleTimer) clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      console.log(`Closing idle SSH session to ${ip}`);
+      this.closeConnection(ip);
+    }, this.idleTimeoutMs);
+  }
+
+  /**
+   * Connects a new client and makes it the session's client
+   * The previous client, if any, is closed only after the new one has authenticated
+   */
+  private async openClient(ip: string, credentials: SshCredentials): Promise<Client> {
+    const client = new Client();
+    console.log(`Connecting to router at ${ip}...`);
+    await this.connectClient(client, ip, credentials);
+    
+    const session = this.getSession(ip);
+    const previous = session.client;
+    session.client = client;
+    previous?.end();
+    
+    // Forget the client when the router drops the connection (e.g. while rebooting)
+    client.on('close', () => {
+      const current = this.sessions.get(ip);
+      if (current?.client === client) {
+        console.log(`SSH session to ${ip} closed`);
+        current.client = undefined;
+      }
+    });
+    
+    this.touch(ip);
+    return client;
+  }
+
+  /**
+   * Returns the session's client, reconnecting with the remembered credentials if needed
+   * Falls back to an empty password, which is what a freshly flashed router accepts
+   */
+  private async getClient(ip: string): Promise<Client> {
+    const session = this.getSession(ip);
+    if (session.client) {
+      this.touch(ip);
+      return session.client;
+    }
+    
+    if (!session.connecting) {
+      session.connecting = this.reconnect(ip).finally(() => {
+        session.connecting = undefined;
+      });
+    }
+    return session.connecting;
+  }
+
+  /**
+   * Opens a new client with the remembered credentials, then with an empty password
+   */
+  private async reconnect(ip: string): Promise<Client> {
+    console.log(`No existing SSH connection to ${ip}, attempting to reconnect...`);
+    const stored = this.credentials.get(ip);
+    const attempts: SshCredentials[] = stored && this.hasCredentials(stored) ? [stored, {}] : [{}];
+    let lastError: unknown;
+    for (const credentials of attempts) {
+      try {
+        return await this.openClient(ip, credentials);
+      } catch (error) {
+        lastError = error;
+      }
     }
-    this.connections.clear();
+    
+    throw new Error(`Failed to reconnect to ${ip}: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
   }
 
   /**
    * Establishes an SSH connection using the provided client
    */
-  private connectClient(client: Client, ip: string, password?: string): Promise<void> {
+  private connectClient(client: Client, ip: string, credentials: SshCredentials): Promise<void> {
     return new Promise((resolve, reject) => {
       // Flag to track if this client has been cleaned up
       let isCleanedUp = false;
+      // Explains a rejected host key better than ssh2's generic "verification failed"
+      let hostKeyError: Error | undefined;
       
       // Function to clean up resources
       const cleanupClient = () => {
         if (isCleanedUp) return;
         isCleanedUp = true;
         
-        // Remove all listeners
+        // Remove all listeners, but keep swallowing errors from the dying socket
+        // so a late handshake failure cannot crash the main process
         client.removeAllListeners();
+        client.on('error', () => {});
         
         // Destroy connection if needed
         try {
@@ -184,7 +376,7 @@ export class SshConnector {
         console.error(`SSH connection error to ${ip}:`, err);
         clearTimeout(timeout);
         cleanupClient();
-        reject(err);
+        reject(hostKeyError || err);
       });
       
       // Setup close handler for unexpected closures
@@ -201,14 +393,31 @@ export class SshConnector {
       try {
         client.connect({
           host: ip,
-          port: 22,
+          port: this.ports.get(ip) || 22,
           username: this.username,
-          password: password || '',
+          ...this.buildAuthConfig(credentials),
           readyTimeout: this.connectionTimeout,
-          // Disable host key checking - required for routers that change keys after firmware updates
-          hostHash: 'none',
-          // Hash the hostname to avoid issues with known_hosts file
-          hostVerifier: () => true, // Always accept host keys
+          // Trust on first use; flashing regenerates the key, which the installer announces in advance
+          hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => {
+            this.hostKeyStore.check(ip, key).then((check) => {
+              if (check.status === 'changed') {
+                this.rejectedHostKeys.add(ip);
+                hostKeyError = new Error(
+                  `The SSH host key of ${check.device} has changed since it was first seen ` +
+                  `(expected ${check.previousFingerprint}, got ${check.fingerprint}). ` +
+                  `This can mean another device is impersonating the router. ` +
+                  `If it was reset, reflashed or replaced outside this app, forget its host key and try again.`
+                );
+                verify(false);
+              } else {
+                this.rejectedHostKeys.delete(ip);
+                verify(true);
+              }
+            }).catch((error) => {
+              console.error(`Error checking host key for ${ip}:`, error);
+              verify(false);
+            });
+          },
           // Support multiple key algorithms
           algorithms: {
             serverHostKey: ['ssh-rsa', 'ecdsa-sha2-nistp256', 'ssh-ed25519']
@@ -225,86 +434,439 @@ export class SshConnector {
   }
 
   /**
-   * Transfers a file to the router using scp command
+   * Translates stored credentials into ssh2 authentication options
+   * Routers with no root password accept an empty password, so that is the default
+   */
+  private buildAuthConfig(credentials: SshCredentials): Partial<ConnectConfig> {
+    const config: Partial<ConnectConfig> = {};
+    
+    if (credentials.privateKeyPath) {
+      config.privateKey = fs.readFileSync(credentials.privateKeyPath);
+      config.passphrase = credentials.passphrase || undefined;
+    }
+    
+    if (credentials.useAgent) {
+      const agent = process.platform === 'win32' ? 'pageant' : process.env.SSH_AUTH_SOCK;
+      if (!agent) {
+        throw new Error('No SSH agent is running (SSH_AUTH_SOCK is not set)');
+      }
+      config.agent = agent;
+    }
+    
+    if (credentials.password !== undefined || (!credentials.privateKeyPath && !credentials.useAgent)) {
+      config.password = credentials.password || '';
+    }
+    
+    return config;
+  }
+
+  private hasCredentials(credentials: SshCredentials): boolean {
+    return Boolean(credentials.password || credentials.privateKeyPath || credentials.useAgent);
+  }
+
+  private sameCredentials(a: SshCredentials, b?: SshCredentials): boolean {
+    return Boolean(b) &&
+      (a.password || '') === (b?.password || '') &&
+      (a.privateKeyPath || '') === (b?.privateKeyPath || '') &&
+      (a.passphrase || '') === (b?.passphrase || '') &&
+      Boolean(a.useAgent) === Boolean(b?.useAgent);
+  }
+
+  /**
+   * Describes credentials for logging without revealing any secrets
+   */
+  private describeCredentials(credentials: SshCredentials): string {
+    const methods = [
+      credentials.privateKeyPath && `key ${credentials.privateKeyPath}`,
+      credentials.useAgent && 'SSH agent',
+      credentials.password && 'password'
+    ].filter(Boolean);
+    return methods.length > 0 ? methods.join(', ') : 'no password';
+  }
+
+  /**
+   * Reads an OpenSSH public key line from a .pub file or derives it from a private key
+   */
+  private readPublicKey(keyPath: string, passphrase?: string): string {
+    const publicKeyPath = keyPath.endsWith('.pub') ? keyPath : `${keyPath}.pub`;
+    let publicKey: string;
+    
+    if (fs.existsSync(publicKeyPath)) {
+      publicKey = fs.readFileSync(publicKeyPath, 'utf8').trim();
+    } else {
+      const parsed = utils.parseKey(fs.readFileSync(keyPath), passphrase);
+      if (parsed instanceof Error) {
+        throw new Error(`Could not read key ${keyPath}: ${parsed.message}`);
+      }
+      const key = Array.isArray(parsed) ? parsed[0] : parsed;
+      publicKey = `${key.type} ${key.getPublicSSH().toString('base64')}`;
+    }
+    
+    // Only a single well-formed key line may be written to authorized_keys
+    if (!/^[a-z0-9@.-]+ [A-Za-z0-9+/=]+( [^\r\n]*)?$/.test(publicKey)) {
+      throw new Error(`${publicKeyPath} does not contain a valid OpenSSH public key`);
+    }
+    
+    return publicKey;
+  }
+
+  /**
+   * Transfers a file to the router over the existing SSH session
+   * Uses SFTP when the router has an sftp-server, otherwise falls back to the SCP sink
+   * protocol and finally to `cat > file` for minimal dropbear builds
    * @param ip Router IP address
    * @param localPath Path to the local file to transfer
    * @param remotePath Path on the router where the file should be placed
-   * @param username Username for SSH connection (defaults to 'root')
-   * @param password Optional password for SSH connection
+   * @param options.onProgress Called as data is sent with the bytes written so far and the file size
+   * @param options.signal Aborts the transfer when triggered
    * @returns Promise that resolves to true if transfer was successful
    */
   public async transferFile(
     ip: string,
     localPath: string,
     remotePath: string,
-    username: string = this.username,
-    password?: string
+    options?: {
+      onProgress?: (transferred: number, total: number) => void;
+      signal?: AbortSignal;
+    }
   ): Promise<boolean> {
-    console.log(`Transferring file from ${localPath} to ${username}@${ip}:${remotePath}`);
-    
-    const execPromise = promisify(exec);
+    const host = ip.includes(':') ? `[${ip}]` : ip;
+    console.log(`Transferring file from ${localPath} to ${this.username}@${host}:${remotePath}`);
     
+    this.acquire(ip);
     try {
-      // First, ensure the target directory exists
-      // Extract the directory from the remote path
-      const remoteDir = path.dirname(remotePath);
-      
       // Get an existing SSH client or establish a new connection
-      let client = this.connections.get(ip);
-      if (!client) {
-        const connectResult = await this.connect(ip, password);
-        if (!connectResult.success) {
-          console.error(`Failed to connect to ${ip} for directory creation`);
-          return false;
-        }
-        client = this.connections.get(ip);
-        if (!client) {
-          console.error(`Connection established but client not found for ${ip}`);
-          return false;
-        }
-      }
+      const client = await this.getClient(ip);
       
-      // Create the directory structure first using SSH
+      // Create the directory structure first
+      const remoteDir = path.dirname(remotePath);
       try {
-        await this.executeCommand(client, `mkdir -p ${remoteDir}`);
+        await this.executeCommand(client, `mkdir -p ${this.shellQuote(remoteDir)}`);
         console.log(`Created directory ${remoteDir} on router`);
       } catch (dirError) {
         console.error(`Error creating directory on router: ${dirError}`);
         // Continue anyway since we're assuming /tmp exists
       }
       
-      // Use the native scp command for file transfer with -O for older protocol
-      // The -O option uses the old SCP protocol which doesn't require sftp-server
-      // Additional options to handle host key changes that occur during router firmware updates:
-      // - StrictHostKeyChecking=no: Don't verify the host key against known_hosts
-      // - UserKnownHostsFile=/dev/null: Don't use or update the known_hosts file
-      // - LogLevel=error: Only show errors, not warnings
-      let scpCommand = `scp -O -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -o LogLevel=error "${localPath}" "${username}@${ip}:${remotePath}"`;
+      const size = fs.statSync(localPath).size;
+      const methods: { name: string; upload: (client: Client) => Promise<void> }[] = [
+        { name: 'SFTP', upload: (c) => this.uploadSftp(c, localPath, remotePath, size, options) },
+        { name: 'SCP', upload: (c) => this.uploadScp(c, localPath, remotePath, size, options) },
+        { name: 'cat', upload: (c) => this.uploadCat(c, localPath, remotePath, size, options) }
+      ];
       
-      // Add password handling if needed
-      // In a real application, you'd want to use a more secure approach than passing password via env
-      if (password) {
-        console.log('Using password for scp transfer');
-        // Use sshpass if a password is provided (might need to be installed)
-        scpCommand = `sshpass -p "${password}" ${scpCommand}`;
+      for (const method of methods) {
+        try {
+          await method.upload(client);
+          console.log(`Transferred ${size} bytes to ${ip}:${remotePath} via ${method.name}`);
+          return true;
+        } catch (methodError) {
+          if (options?.signal?.aborted) {
+            console.log(`Transfer to ${ip} was aborted`);
+            return false;
+          }
+          console.warn(`${method.name} transfer to ${ip} failed, trying next method:`, methodError);
+        }
       }
       
-      console.log(`Executing SCP command (password hidden): ${scpCommand.replace(password || '', '****')}`);
-      const { stdout, stderr } = await execPromise(scpCommand);
+      console.error(`All transfer methods failed for ${ip}`);
+      return false;
+    } catch (error) {
+      console.error(`Error transferring file to ${ip}:`, error);
+      return false;
+    } finally {
+      this.release(ip);
+    }
+  }
+
+  /**
+   * Copies a file from the router to this machine, via SFTP or `cat` when the router has no sftp-server
+   * @returns True if the file was downloaded
+   */
+  public async downloadFile(ip: string, remotePath: string, localPath: string): Promise<boolean> {
+    console.log(`Downloading ${remotePath} from ${ip} to ${localPath}`);
+    
+    this.acquire(ip);
+    try {
+      const client = await this.getClient(ip);
+      fs.mkdirSync(path.dirname(localPath), { recursive: true });
       
-      if (stderr && !stderr.includes('Warning')) {
-        console.error(`SCP error: ${stderr}`);
-        return false;
+      try {
+        await this.downloadSftp(client, remotePath, localPath);
+        console.log(`Downloaded ${remotePath} from ${ip} via SFTP`);
+        return true;
+      } catch (sftpError) {
+        console.warn(`SFTP download from ${ip} failed, trying cat:`, sftpError);
       }
       
-      console.log(`SCP output: ${stdout}`);
+      await this.downloadCat(client, remotePath, localPath);
+      console.log(`Downloaded ${remotePath} from ${ip} via cat`);
       return true;
     } catch (error) {
-      console.error(`Error transferring file to ${ip}:`, error);
+      console.error(`Error downloading ${remotePath} from ${ip}:`, error);
       return false;
+    } finally {
+      this.release(ip);
     }
   }
-  
+
+  private downloadSftp(client: Client, remotePath: string, localPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      client.sftp((err, sftp) => {
+        if (err) return reject(err);
+        
+        pipeline(sftp.createReadStream(remotePath), fs.createWriteStream(localPath))
+          .then(resolve, reject)
+          .finally(() => sftp.end());
+      });
+    });
+  }
+
+  private downloadCat(client: Client, remotePath: string, localPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      client.exec(`cat ${this.shellQuote(remotePath)}`, (err, stream) => {
+        if (err) return reject(err);
+        
+        let exitCode: number | undefined;
+        let exitSignal: string | undefined;
+        let stderr = '';
+        stream.on('exit', (code: number | null, signal?: string) => {
+          exitCode = code ?? undefined;
+          exitSignal = signal;
+        });
+        stream.stderr.on('data', (data: Buffer) => {
+          stderr += data.toString();
+        });
+        
+        const closed = new Promise<void>((resolveClose) => stream.on('close', () => resolveClose()));
+        pipeline(stream, fs.createWriteStream(localPath))
+          .then(() => closed)
+          .then(() => {
+            if (exitCode !== 0) {
+              throw new Error(this.describeCatFailure(exitCode, exitSignal, stderr));
+            }
+            resolve();
+          })
+          .catch(reject);
+      });
+    });
+  }
+
+  /**
+   * Uploads a file through the SFTP subsystem
+   */
+  private uploadSftp(
+    client: Client,
+    localPath: string,
+    remotePath: string,
+    size: number,
+    options?: { onProgress?: (transferred: number, total: number) => void; signal?: AbortSignal }
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      client.sftp((err, sftp) => {
+        if (err) {
+          // Typically "Unable to start subsystem: sftp" on routers without sftp-server
+          return reject(err);
+        }
+        
+        const source = this.createProgressStream(localPath, size, options?.onProgress);
+        pipeline(source, sftp.createWriteStream(remotePath), { signal: options?.signal })
+          .then(resolve, reject)
+          .finally(() => sftp.end());
+      });
+    });
+  }
+
+  /**
+   * Uploads a file by running `scp -t` on the router and speaking the SCP sink protocol
+   * Each control message must be acknowledged with a zero byte before the next one is sent
+   */
+  private uploadScp(
+    client: Client,
+    localPath: string,
+    remotePath: string,
+    size: number,
+    options?: { onProgress?: (transferred: number, total: number) => void; signal?: AbortSignal }
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      client.exec(`scp -t ${this.shellQuote(remotePath)}`, (err, stream) => {
+        if (err) return reject(err);
+        
+        // 0: waiting for the sink to start, 1: header sent, 2: sending data, 3: end marker sent
+        let stage = 0;
+        let settled = false;
+        let source: fs.ReadStream | undefined;
+        
+        const fail = (error: Error) => {
+          if (settled) return;
+          settled = true;
+          options?.signal?.removeEventListener('abort', onAbort);
+          source?.destroy();
+          stream.close();
+          reject(error);
+        };
+        const onAbort = () => fail(new Error('Transfer aborted'));
+        options?.signal?.addEventListener('abort', onAbort);
+        
+        stream.on('data', (data: Buffer) => {
+          if (data[0] !== 0) {
+            return fail(new Error(`scp: ${data.subarray(1).toString().trim() || 'transfer rejected'}`));
+          }
+          
+          if (stage === 0) {
+            stage = 1;
+            stream.write(`C0644 ${size} ${path.basename(remotePath)}\n`);
+          } else if (stage === 1) {
+            stage = 2;
+            // Only open the file now: the progress listener starts it flowing immediately
+            source = this.createProgressStream(localPath, size, options?.onProgress);
+            source.on('end', () => {
+              stage = 3;
+              stream.write(Buffer.from([0]));
+            });
+            source.on('error', fail);
+            source.pipe(stream, { end: false });
+          } else if (stage === 3) {
+            settled = true;
+            options?.signal?.removeEventListener('abort', onAbort);
+            stream.end();
+            resolve();
+          }
+        });
+        
+        stream.stderr.on('data', (data: Buffer) => {
+          console.error(`scp stderr: ${data.toString()}`);
+        });
+        
+        stream.on('close', () => {
+          fail(new Error('scp exited before the transfer completed'));
+        });
+      });
+    });
+  }
+
+  /**
+   * Uploads a file by piping it into `cat` on the router
+   * Works on any router with a shell, but gives no protocol-level acknowledgement
+   */
+  private uploadCat(
+    client: Client,
+    localPath: string,
+    remotePath: string,
+    size: number,
+    options?: { onProgress?: (transferred: number, total: number) => void; signal?: AbortSignal }
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      client.exec(`cat > ${this.shellQuote(remotePath)}`, (err, stream) => {
+        if (err) return reject(err);
+        
+        let exitCode: number | undefined;
+        let exitSignal: string | undefined;
+        let stderr = '';
+        stream.on('exit', (code: number | null, signal?: string) => {
+          exitCode = code ?? undefined;
+          exitSignal = signal;
+        });
+        stream.stderr.on('data', (data: Buffer) => {
+          stderr += data.toString();
+        });
+        // cat writes nothing to stdout, but the channel must be drained for it to close
+        stream.resume();
+        
+        const closed = new Promise<void>((resolveClose) => stream.on('close', () => resolveClose()));
+        const source = this.createProgressStream(localPath, size, options?.onProgress);
+        
+        pipeline(source, stream, { signal: options?.signal })
+          .then(() => closed)
+          .then(() => {
+            if (exitCode !== 0) {
+              throw new Error(this.describeCatFailure(exitCode, exitSignal, stderr));
+            }
+            resolve();
+          })
+          .catch((error) => {
+            stream.close();
+            reject(error);
+          });
+      });
+    });
+  }
+
+  /**
+   * Explains why a cat transfer did not finish; a channel that closed without an exit status
+   * (killed by a signal or dropped) never counts as a completed transfer
+   */
+  private describeCatFailure(exitCode: number | undefined, exitSignal: string | undefined, stderr: string): string {
+    const output = stderr.trim() ? `: ${stderr.trim()}` : '';
+    if (exitSignal) return `cat was killed by signal ${exitSignal}${output}`;
+    if (exitCode === undefined) return `cat ended without an exit status${output}`;
+    return `cat exited with code ${exitCode}${output}`;
+  }
+
+  /**
+   * Opens a read stream for a local file that reports how many bytes have been read
+   */
+  private createProgressStream(
+    localPath: string,
+    size: number,
+    onProgress?: (transferred: number, total: number) => void
+  ): fs.ReadStream {
+    const source = fs.createReadStream(localPath);
+    let transferred = 0;
+    source.on('data', (chunk: Buffer | string) => {
+      transferred += chunk.length;
+      onProgress?.(transferred, size);
+    });
+    return source;
+  }
+
+  /**
+   * Wraps a value in single quotes for use in a remote shell command
+   */
+  private shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+
+  /**
+   * Waits until the router stops answering on its SSH port, e.g. once sysupgrade has stopped the old firmware
+   * Polling for the rebooted router before this could reach the old firmware while it is still going down
+   * @param ip Router IP address
+   * @param timeoutMs How long to wait for the port to close
+   * @param interval Interval between probes in milliseconds
+   * @returns Whether SSH went away within the timeout
+   */
+  public async waitForShutdown(ip: string, timeoutMs: number = 120000, interval: number = 2000): Promise<boolean> {
+    console.log(`Waiting for ${ip} to stop answering SSH`);
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (!(await this.isSshPortOpen(ip, interval))) {
+        console.log(`${ip} stopped answering SSH`);
+        return true;
+      }
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+    console.error(`${ip} kept answering SSH for ${timeoutMs}ms`);
+    return false;
+  }
+
+  /**
+   * Checks whether the router accepts TCP connections on its SSH port
+   */
+  private isSshPortOpen(ip: string, timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = new net.Socket();
+      const finish = (open: boolean) => {
+        socket.destroy();
+        resolve(open);
+      };
+      socket.setTimeout(timeoutMs);
+      socket.on('connect', () => finish(true));
+      socket.on('timeout', () => finish(false));
+      socket.on('error', () => finish(false));
+      socket.connect(this.ports.get(ip) || 22, ip);
+    });
+  }
+
   /**
    * Polls the router's SSH port until it becomes available
    * This is used after a firmware update when the router reboots
@@ -315,8 +877,10 @@ export class SshConnector {
   public async pollForAvailability(ip: string, maxAttempts: number = 30, interval: number = 5000): Promise<boolean> {
     console.log(`Polling ${ip} for availability, max attempts: ${maxAttempts}, interval: ${interval}ms`);
     
-    // Close any existing connection first
-    await this.closeConnection(ip);
+    // Drop the client that was connected before the reboot; the session and its holders remain
+    const session = this.sessions.get(ip);
+    session?.client?.end();
+    if (session) session.client = undefined;
     
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       // Track if we need to try again
@@ -324,25 +888,11 @@ export class SshConnector {
       
       try {
         console.log(`Poll attempt ${attempt}/${maxAttempts} for ${ip}`);
-        const result = await this.connect(ip, '');
-        
-        if (result.success) {
-          console.log(`Successfully reconnected to ${ip} after ${attempt} attempts`);
-          return true;
-        } else {
-          // Not a thrown error, but still failed
-          console.log(`Connection attempt ${attempt} failed: ${result.error || 'Unknown reason'}`);
-        }
+        await this.getClient(ip);
+        console.log(`Successfully reconnected to ${ip} after ${attempt} attempts`);
+        return true;
       } catch (error) {
-        // Explicitly handle any uncaught errors from the connect method
-        console.error(`Exception during poll attempt ${attempt} for ${ip}:`, error);
-        
-        // Ensure any remaining connection resources are cleaned up
-        try {
-          await this.closeConnection(ip);
-        } catch (cleanupError) {
-          console.error(`Error cleaning up connection during polling:`, cleanupError);
-        }
+        console.log(`Connection attempt ${attempt} failed: ${error instanceof Error ? error.message : 'Unknown reason'}`);
       }
       
       // Wait before next attempt
@@ -360,23 +910,19 @@ export class SshConnector {
    * Makes the executeCommand method public so it can be used by the InstallerEngine
    */
   public async executeRemoteCommand(ip: string, command: string): Promise<string> {
-    let client = this.connections.get(ip);
-    
-    if (!client) {
-      console.log(`No existing SSH connection to ${ip}, attempting to reconnect...`);
-      const reconnectResult = await this.connect(ip, '');
-      
-      if (!reconnectResult.success) {
-        throw new Error(`Failed to reconnect to ${ip}: ${reconnectResult.error}`);
-      }
-      
-      client = this.connections.get(ip);
-      if (!client) {
-        throw new Error(`Connection established but client not found for ${ip}`);
-      }
+    return this.withClient(ip, (client) => this.executeCommand(client, command));
+  }
+
+  /**
+   * Runs an operation with the router's client, keeping the session open until it finishes
+   */
+  private async withClient<T>(ip: string, operation: (client: Client) => Promise<T>): Promise<T> {
+    this.acquire(ip);
+    try {
+      return await operation(await this.getClient(ip));
+    } finally {
+      this.release(ip);
     }
-    
-    return this.executeCommand(client, command);
   }
 
   /**
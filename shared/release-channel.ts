@@ -0,0 +1,30 @@
+import { ReleaseChannel } from './types';
+
+/**
+ * Channels from most to least stable
+ */
+export const RELEASE_CHANNELS: ReleaseChannel[] = ['stable', 'beta', 'dev'];
+
+/**
+ * Reads a release's channel from its release_channel tag
+ * Releases published before channels existed have no tag and count as stable;
+ * unrecognised channels ("nightly", "alpha") are treated as dev builds
+ *
+ * @param tags The release event's tags
+ */
+export const parseReleaseChannel = (tags: string[][]): ReleaseChannel => {
+  const channel = tags.find(tag => tag[0] === 'release_channel')?.[1]?.trim().toLowerCase();
+  if (!channel) return 'stable';
+  return (RELEASE_CHANNELS as string[]).includes(channel) ? channel as ReleaseChannel : 'dev';
+};
+
+/**
+ * Checks whether a release on one channel is offered to a workstation following another
+ * Following a channel includes everything more stable: beta also offers stable releases
+ *
+ * @param channel The release's channel
+ * @param followed The channel the workstation follows
+ */
+export const isChannelIncluded = (channel: ReleaseChannel, followed: ReleaseChannel): boolean => {
+  return RELEASE_CHANNELS.indexOf(channel) <= RELEASE_CHANNELS.indexOf(followed);
+};
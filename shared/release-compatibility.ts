@@ -0,0 +1,111 @@
+/**
+ * Decides whether a TollGate OS release can be flashed onto a router
+ * Shared by the renderer, to pick releases, and the installer engine, which re-checks before flashing
+ */
+
+/**
+ * What the router reports about itself through `ubus call system board`
+ */
+export interface DeviceIdentity {
+  /** board_name, e.g. "glinet,gl-mt3000" */
+  boardName?: string;
+  /** release.architecture, e.g. "aarch64_cortex-a53" */
+  architecture?: string;
+}
+
+export interface CompatibilityResult {
+  compatible: boolean;
+  /** Which release tag identified the board, when compatible */
+  matchedBy?: 'supported_devices' | 'device_id';
+  /** Why the release does or does not fit, for logs and error messages */
+  reason: string;
+}
+
+/**
+ * Splits the supported_devices tag into board names
+ * Board names contain commas ("glinet,gl-mt3000"), so only whitespace, semicolons and pipes separate
+ * entries; every value after the tag name is read, since publishers put one board per value or all in one
+ *
+ * @param tags The release event's tags
+ * @returns Lower-case board names, without duplicates
+ */
+export const parseSupportedDevices = (tags: string[][]): string[] => {
+  const devices = tags
+    .filter(tag => tag[0] === 'supported_devices')
+    .flatMap(tag => tag.slice(1))
+    .flatMap(value => value.split(/[\s;|]+/))
+    .map(device => device.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(devices)];
+};
+
+// Distributions that are OpenWrt or built on it, which sysupgrade can flash: "OpenWrt", "TollGate OS"
+const INSTALLABLE_DISTRIBUTIONS = [/^openwrt$/i, /tollgate/i];
+
+/**
+ * Whether a router's firmware can take a TollGate OS image through sysupgrade
+ * Shared by the fingerprinter, which marks routers installable, and the installer engine, which refuses the rest
+ *
+ * @param distribution release.distribution from `ubus call system board`
+ */
+export const isInstallableDistribution = (distribution?: string): boolean => {
+  const name = distribution?.trim();
+  return !!name && INSTALLABLE_DISTRIBUTIONS.some(pattern => pattern.test(name));
+};
+
+const getTagValue = (tags: string[][], name: string): string | undefined =>
+  tags.find(tag => tag[0] === name)?.[1]?.trim() || undefined;
+
+/**
+ * Forms of a board name an OpenWrt device or profile id may take:
+ * "glinet,gl-mt3000", the image profile "glinet_gl-mt3000" and the bare model "gl-mt3000"
+ */
+const getDeviceIdCandidates = (boardName: string): string[] => {
+  const [vendor, ...model] = boardName.split(',');
+  return model.length > 0
+    ? [boardName, `${vendor}_${model.join(',')}`, model.join(',')]
+    : [boardName];
+};
+
+/**
+ * Matches a release against a router's board name and architecture
+ * The board must appear exactly in supported_devices or equal the device_id tag;
+ * a release whose architecture differs from the router's is never compatible
+ *
+ * @param tags The release event's tags
+ * @param device The router's board name and architecture
+ */
+export const resolveCompatibility = (tags: string[][], device: DeviceIdentity): CompatibilityResult => {
+  const boardName = device.boardName?.trim().toLowerCase();
+  if (!boardName) {
+    return { compatible: false, reason: 'The router did not report its board name' };
+  }
+
+  const releaseArchitecture = getTagValue(tags, 'architecture')?.toLowerCase();
+  const deviceArchitecture = device.architecture?.trim().toLowerCase();
+  if (releaseArchitecture && deviceArchitecture && releaseArchitecture !== deviceArchitecture) {
+    return {
+      compatible: false,
+      reason: `Release is built for ${releaseArchitecture}, but this router is ${deviceArchitecture}`
+    };
+  }
+
+  const supportedDevices = parseSupportedDevices(tags);
+  if (supportedDevices.includes(boardName)) {
+    return { compatible: true, matchedBy: 'supported_devices', reason: `Release supports ${boardName}` };
+  }
+
+  const deviceId = getTagValue(tags, 'device_id')?.toLowerCase();
+  if (deviceId && getDeviceIdCandidates(boardName).includes(deviceId)) {
+    return { compatible: true, matchedBy: 'device_id', reason: `Release device_id ${deviceId} matches ${boardName}` };
+  }
+
+  if (supportedDevices.length === 0 && !deviceId) {
+    return { compatible: false, reason: 'Release lists no supported devices (supported_devices or device_id tag)' };
+  }
+  const releaseDevices = deviceId ? [...supportedDevices, deviceId] : supportedDevices;
+  return {
+    compatible: false,
+    reason: `Release supports ${[...new Set(releaseDevices)].join(', ')}, but this router is a ${boardName}`
+  };
+};
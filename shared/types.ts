@@ -1,9 +1,44 @@
+/**
+ * Where a scan candidate came from: an interface-derived gateway guess, the default route,
+ * the kernel ARP table, an mDNS _ssh._tcp announcement, a DHCP lease, the subnet sweep,
+ * or an address the user typed in
+ */
+export type DiscoverySource = 'interface' | 'route' | 'arp' | 'mdns' | 'dhcp' | 'sweep' | 'manual';
+
+/**
+ * Release details the router reports through `ubus call system board`
+ */
+export interface RouterReleaseInfo {
+  distribution: string;
+  version: string;
+  revision: string;
+  target?: string;
+  architecture?: string;
+  description?: string;
+}
+
+/**
+ * Output of `ubus call system board`
+ */
+export interface RouterInfo {
+  kernel?: string;
+  hostname?: string;
+  system?: string;
+  model?: string;
+  board_name: string;
+  release?: RouterReleaseInfo;
+}
+
 /**
  * Result of a network scan for potential routers
  */
 export interface ScanResult {
   ip: string;
   sshOpen: boolean;
+  /** SSH port the router answered on when it is not 22 */
+  sshPort?: number;
+  /** Every source that reported this address */
+  discoveredVia?: DiscoverySource[];
   meta?: {
     isGateway?: boolean;
     status?: string;
@@ -19,6 +54,175 @@ export interface ScanResult {
         architecture?: string;
       }
     }
-    routerInfo?: any; // RouterInfo from ssh-connector.ts
+    routerInfo?: RouterInfo;
+    fingerprint?: DeviceFingerprint;
+    tollgateRelease?: TollgateReleaseInfo;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Contents of /etc/tollgate/release.json on a router already running TollGate OS
+ */
+export interface TollgateReleaseInfo {
+  version: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Firmware a router is running, as far as banners and ubus reveal
+ * glinet-stock is OpenWrt based and can be upgraded directly; the other stock firmwares need OpenWrt first
+ */
+export type FirmwareFamily = 'tollgate' | 'openwrt' | 'glinet-stock' | 'tplink-stock' | 'ubiquiti-stock' | 'unknown';
+
+export interface DeviceFingerprint {
+  family: FirmwareFamily;
+  vendor?: string;
+  /** Human-readable summary, e.g. "GL.iNet stock firmware 4.3.7" */
+  description: string;
+  /** Whether TollGate OS can be installed over SSH as the router is now */
+  installable: boolean;
+  /** What the user has to do before TollGate OS can be installed */
+  firstStageStep?: string;
+  /** Banners and markers the classification is based on */
+  evidence: string[];
+}
+
+/**
+ * Incremental update pushed from the network scanner while a scan runs
+ * Probe progress is batched rather than sent for every address
+ */
+export type ScanEvent =
+  | { type: 'started'; total: number }
+  | { type: 'hosts-probed'; probed: number; total: number }
+  | { type: 'ssh-open'; ip: string }
+  | { type: 'enriched'; result: ScanResult }
+  | { type: 'done'; results: ScanResult[] };
+
+/**
+ * Named set of scan targets, persisted in the main process and selectable per scan
+ */
+export interface ScanProfile {
+  id: string;
+  name: string;
+  /** IPv4 ranges to sweep, e.g. "10.20.0.0/22" */
+  cidrs: string[];
+  /** Individual addresses probed in addition to the ranges; IPv6 link-local needs a zone, e.g. "fe80::1%eth0" */
+  hosts: string[];
+  /** SSH ports tried in order on every address */
+  ports: number[];
+  /** Per-probe connection timeout */
+  timeoutMs: number;
+  /** Whether gateways and neighbours found via routes, ARP, mDNS and DHCP are probed first */
+  includeGateways: boolean;
+}
+
+/**
+ * Progress update pushed from the installer engine while an install runs
+ */
+export interface InstallProgress {
+  ip: string;
+  step: string;
+  progress: number;
+  bytesDownloaded?: number;
+  bytesTransferred?: number;
+  totalBytes?: number;
+  /** False once sysupgrade has started and the install can no longer be aborted safely */
+  cancellable?: boolean;
+  log?: string;
+}
+
+/**
+ * How to authenticate as root on a router
+ * Any combination may be given; each supplied method is tried in turn
+ */
+export interface SshCredentials {
+  password?: string;
+  privateKeyPath?: string;
+  passphrase?: string;
+  useAgent?: boolean;
+}
+
+/**
+ * Outcome of importing a folder of release events and firmware images
+ */
+export interface OfflineImportResult {
+  imported: number;
+  skipped: number;
+  errors: { file: string; error: string }[];
+}
+
+/**
+ * How the firmware is flashed
+ * - clean: `sysupgrade -n`, the router comes back with factory settings
+ * - preserve-settings: only for routers already running TollGate OS; the image is validated,
+ *   the configuration backed up, flashed keeping settings and checked after the reboot
+ */
+export type InstallMode = 'clean' | 'preserve-settings';
+
+/**
+ * Release channel from a release event's release_channel tag, most stable first
+ */
+export type ReleaseChannel = 'stable' | 'beta' | 'dev';
+
+/**
+ * Settings kept per workstation by the main process
+ */
+export interface AppSettings {
+  /** Newest release on this channel, or a more stable one, is offered by default */
+  defaultReleaseChannel: ReleaseChannel;
+  /** Nostr relays release events are fetched from */
+  relayUrls: string[];
+}
+
+export type RelayConnectionState = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * How a release relay is doing, shown so operators can see why releases are or aren't loading
+ */
+export interface RelayHealth {
+  url: string;
+  state: RelayConnectionState;
+  /** Time the last WebSocket connection took to open */
+  latencyMs?: number;
+  /** Distinct release events this relay has sent */
+  releaseEvents: number;
+  lastError?: string;
+}
+
+/**
+ * Choices made when queueing an install
+ */
+export interface InstallOptions {
+  /** Public or private key file whose public key is added to the router's authorized_keys after flashing */
+  authorizedKeyPath?: string;
+  /** Defaults to a clean install */
+  mode?: InstallMode;
+  /** The operator confirmed flashing a dev channel build; dev releases are refused without it */
+  confirmDevRelease?: boolean;
+}
+
+export type InstallJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * An install of one router, tracked by the main-process install queue
+ */
+export interface InstallJob {
+  id: string;
+  ip: string;
+  releaseId?: string;
+  releaseVersion?: string;
+  /** Version the router reported from /etc/tollgate/release.json after the install */
+  installedVersion?: string;
+  state: InstallJobState;
+  step: string;
+  progress: number;
+  bytesDownloaded?: number;
+  bytesTransferred?: number;
+  totalBytes?: number;
+  cancellable: boolean;
+  error?: string;
+  logs: string[];
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
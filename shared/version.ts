@@ -0,0 +1,97 @@
+/**
+ * Version model for TollGate OS version strings
+ * Understands semver ("v0.1.0", "1.2.0-beta.2+build.5") and the develop branch scheme
+ * "develop.<build>.<sha>" used by dev builds
+ */
+
+type PrereleaseIdentifier = string | number;
+
+export type ParsedVersion =
+  | { kind: 'semver'; raw: string; core: [number, number, number]; prerelease: PrereleaseIdentifier[] }
+  | { kind: 'develop'; raw: string; build: number; sha: string }
+  | { kind: 'unknown'; raw: string };
+
+const SEMVER_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const DEVELOP_PATTERN = /^develop\.(\d+)(?:\.([0-9a-f]+))?$/i;
+
+// Unknown strings sort below develop builds, which are pre-releases and sort below any semver version
+const KIND_RANK: Record<ParsedVersion['kind'], number> = { unknown: 0, develop: 1, semver: 2 };
+
+/**
+ * Parses a version string
+ * Missing minor and patch numbers count as zero, so "v1" equals "1.0.0"
+ *
+ * @param raw The version as published, with or without a leading "v"
+ */
+export const parseVersion = (raw: string): ParsedVersion => {
+  const version = raw.trim();
+
+  const develop = version.match(DEVELOP_PATTERN);
+  if (develop) {
+    return { kind: 'develop', raw, build: Number(develop[1]), sha: develop[2]?.toLowerCase() || '' };
+  }
+
+  const semver = version.match(SEMVER_PATTERN);
+  if (semver) {
+    return {
+      kind: 'semver',
+      raw,
+      core: [Number(semver[1]), Number(semver[2] || 0), Number(semver[3] || 0)],
+      prerelease: semver[4]
+        ? semver[4].split('.').map(identifier => (/^\d+$/.test(identifier) ? Number(identifier) : identifier))
+        : []
+    };
+  }
+
+  return { kind: 'unknown', raw };
+};
+
+/**
+ * Orders pre-release identifiers as semver does: numbers before words, numbers numerically,
+ * and a longer list after a shorter one it starts with
+ */
+const comparePrerelease = (a: PrereleaseIdentifier[], b: PrereleaseIdentifier[]): number => {
+  // A release sorts after any of its pre-releases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') return (a[i] as number) - (b[i] as number);
+    if (typeof a[i] === 'number') return -1;
+    if (typeof b[i] === 'number') return 1;
+    return String(a[i]) < String(b[i]) ? -1 : 1;
+  }
+  return 0;
+};
+
+/**
+ * Compares two TollGate OS versions
+ * Develop builds are ordered by build number; the sha only tells apart builds with the same number
+ *
+ * @param a The first version
+ * @param b The second version
+ * @returns A negative number if a is older than b, zero if equal, positive if a is newer
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const versionA = parseVersion(a);
+  const versionB = parseVersion(b);
+
+  if (versionA.kind !== versionB.kind) {
+    return KIND_RANK[versionA.kind] - KIND_RANK[versionB.kind];
+  }
+
+  if (versionA.kind === 'semver' && versionB.kind === 'semver') {
+    for (let i = 0; i < 3; i++) {
+      if (versionA.core[i] !== versionB.core[i]) return versionA.core[i] - versionB.core[i];
+    }
+    return comparePrerelease(versionA.prerelease, versionB.prerelease);
+  }
+
+  if (versionA.kind === 'develop' && versionB.kind === 'develop') {
+    return versionA.build - versionB.build || versionA.sha.localeCompare(versionB.sha);
+  }
+
+  return versionA.raw.trim().localeCompare(versionB.raw.trim());
+};
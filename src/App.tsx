@@ -4,21 +4,24 @@ import { theme } from './styles/theme';
 import { GlobalStyle } from './styles/GlobalStyle';
 import Welcome from './components/Welcome';
 import RouterScanner from './components/RouterScanner';
-import PasswordEntry from './components/PasswordEntry';
-import Installer from './components/Installer';
+import PasswordEntry, { KeyAuthSettings } from './components/PasswordEntry';
+import InstallDashboard from './components/InstallDashboard';
 import Complete from './components/Complete';
+import RelaySettings from './components/RelaySettings';
 import NostrReleaseProvider from './components/NostrReleaseProvider';
 import Background from './components/Background';
-import { ScanResult } from '../shared/types';
-import { NDKEvent } from '@nostr-dev-kit/ndk';
+import { ScanResult, ScanEvent, ScanProfile, InstallJob, InstallOptions, InstallMode, OfflineImportResult, SshCredentials, AppSettings, ReleaseChannel, RelayHealth } from '../shared/types';
+import { getReleaseVersion, getReleaseChannel } from './utils/releaseUtils';
+import { NDKEvent, NostrEvent } from '@nostr-dev-kit/ndk';
 
 // App stages
 enum Stage {
   WELCOME,
   SCANNING,
   PASSWORD_ENTRY,
-  INSTALLING,
-  COMPLETE
+  DASHBOARD,
+  COMPLETE,
+  SETTINGS
 }
 
 // Router data structure
@@ -28,16 +31,45 @@ interface RouterInfo {
   boardName?: string;
   architecture?: string;
   compatible?: boolean;
+  installedVersion?: string;
 }
 
 // TypeScript declaration for Electron's IPC interface
 declare global {
   interface Window {
     electron: {
-      scanNetwork: () => Promise<ScanResult[]>;
-      connectSsh: (ip: string, password?: string) => Promise<{ success: boolean; error?: string }>;
+      scanNetwork: (profileId?: string) => Promise<ScanResult[]>;
+      onScanEvent: (callback: (event: ScanEvent) => void) => () => void;
+      listScanProfiles: () => Promise<ScanProfile[]>;
+      saveScanProfile: (profile: ScanProfile) => Promise<{ success: boolean; profile?: ScanProfile; error?: string }>;
+      deleteScanProfile: (id: string) => Promise<void>;
+      getSettings: () => Promise<AppSettings>;
+      updateSettings: (changes: Partial<AppSettings>) => Promise<{ success: boolean; settings?: AppSettings; error?: string }>;
+      connectSsh: (
+        ip: string,
+        credentials?: string | SshCredentials
+      ) => Promise<{ success: boolean; error?: string; hostKeyChanged?: boolean }>;
+      forgetHostKey: (ip: string) => Promise<void>;
+      selectSshKey: () => Promise<string | null>;
       checkDevice: (ip: string) => Promise<ScanResult | null>;
-      installTollgate: (ip: string, releaseEvent: string) => Promise<{ success: boolean; step: string; progress: number; error?: string }>;
+      enqueueInstall: (
+        ip: string,
+        releaseEvent: string,
+        label?: { releaseId?: string; releaseVersion?: string },
+        options?: InstallOptions
+      ) => Promise<{ success: boolean; job?: InstallJob; error?: string }>;
+      cancelInstall: (ip: string) => Promise<{ success: boolean; job?: InstallJob; error?: string }>;
+      listInstallJobs: () => Promise<InstallJob[]>;
+      clearFinishedInstalls: () => Promise<InstallJob[]>;
+      getInstallConcurrency: () => Promise<number>;
+      setInstallConcurrency: (concurrency: number) => Promise<number>;
+      onInstallJobUpdated: (callback: (job: InstallJob) => void) => () => void;
+      importOfflineLibrary: () => Promise<OfflineImportResult | null>;
+      listOfflineReleases: () => Promise<NostrEvent[]>;
+      listReleases: () => Promise<NostrEvent[]>;
+      onReleasesChanged: (callback: (releases: NostrEvent[]) => void) => () => void;
+      getRelayHealth: () => Promise<RelayHealth[]>;
+      onRelayHealthChanged: (callback: (health: RelayHealth[]) => void) => () => void;
     };
   }
 }
@@ -54,21 +86,71 @@ const App: React.FC = () => {
   // State
   const [stage, setStage] = useState<Stage>(Stage.WELCOME);
   const [routers, setRouters] = useState<ScanResult[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState(0);
+  const [scanProfileId, setScanProfileId] = useState<string | undefined>(undefined);
   const [selectedRouter, setSelectedRouter] = useState<RouterInfo | null>(null);
   const [selectedRelease, setSelectedRelease] = useState<NDKEvent | null>(null);
+  const [installMode, setInstallMode] = useState<InstallMode>('clean');
   const [password, setPassword] = useState<string>('');
-  const [installProgress, setInstallProgress] = useState<number>(0);
+  const [keyAuth, setKeyAuth] = useState<KeyAuthSettings>({
+    enabled: false,
+    privateKeyPath: '',
+    passphrase: '',
+    useAgent: false,
+    installPublicKey: false
+  });
   const [error, setError] = useState<string | null>(null);
-  const [currentInstallStep, setCurrentInstallStep] = useState<string>('');
-  const [failedStep, setFailedStep] = useState<string | null>(null);
+  const [installJobs, setInstallJobs] = useState<InstallJob[]>([]);
+  const [installConcurrency, setInstallConcurrency] = useState<number>(1);
+  const [releaseChannel, setReleaseChannel] = useState<ReleaseChannel>('stable');
+
+  // Load the release channel this workstation follows
+  useEffect(() => {
+    window.electron.getSettings().then(settings => setReleaseChannel(settings.defaultReleaseChannel));
+  }, []);
+
+  // Load the install queue and follow job updates pushed from the main process
+  useEffect(() => {
+    window.electron.listInstallJobs().then(setInstallJobs);
+    window.electron.getInstallConcurrency().then(setInstallConcurrency);
+    
+    return window.electron.onInstallJobUpdated((job) => {
+      setInstallJobs(prevJobs => {
+        const exists = prevJobs.some(existing => existing.id === job.id);
+        return exists
+          ? prevJobs.map(existing => (existing.id === job.id ? job : existing))
+          : [...prevJobs, job];
+      });
+    });
+  }, []);
+
+  // Fill in the router list and progress bar while a scan runs
+  useEffect(() => {
+    return window.electron.onScanEvent((event) => {
+      if (event.type === 'started') {
+        setScanProgress(0);
+      } else if (event.type === 'hosts-probed') {
+        setScanProgress(event.total > 0 ? Math.round((event.probed / event.total) * 100) : 100);
+      } else if (event.type === 'enriched') {
+        setRouters(prevRouters => [
+          ...prevRouters.filter(router => router.ip !== event.result.ip),
+          event.result
+        ]);
+      }
+    });
+  }, []);
 
   // Scan for routers
   const scanForRouters = async () => {
     try {
       setStage(Stage.SCANNING);
       setError(null);
+      setRouters([]);
+      setScanProgress(0);
+      setIsScanning(true);
       
-      const results = await window.electron.scanNetwork();
+      const results = await window.electron.scanNetwork(scanProfileId);
       console.log('Scan results:', JSON.stringify(results, null, 2));
       setRouters(results);
       
@@ -77,19 +159,81 @@ const App: React.FC = () => {
       }
     } catch (err) {
       setError('Error scanning network: ' + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsScanning(false);
+      setScanProgress(100);
+    }
+  };
+
+  // Credentials for key-based login, or undefined when the user logs in with a password
+  const getKeyCredentials = (): SshCredentials | undefined => {
+    if (!keyAuth.enabled) return undefined;
+    return {
+      privateKeyPath: keyAuth.privateKeyPath || undefined,
+      passphrase: keyAuth.passphrase || undefined,
+      useAgent: keyAuth.useAgent
+    };
+  };
+
+  // Try the technician's key first, then an empty password as on a factory-fresh router
+  const connectWithSavedAuth = async (ip: string) => {
+    const keyCredentials = getKeyCredentials();
+    if (keyCredentials) {
+      const connection = await window.electron.connectSsh(ip, keyCredentials);
+      if (connection.success || connection.hostKeyChanged) {
+        return connection;
+      }
+    }
+    return await window.electron.connectSsh(ip, '');
+  };
+
+  // Re-check a router once we can log in, so ubus and marker files refine its fingerprint
+  const refreshRouter = async (scanResult: ScanResult): Promise<ScanResult> => {
+    if (scanResult.meta?.routerInfo) return scanResult;
+    const refreshed = await window.electron.checkDevice(scanResult.ip);
+    if (!refreshed) return scanResult;
+    
+    const merged = { ...refreshed, discoveredVia: scanResult.discoveredVia };
+    setRouters(prevRouters => prevRouters.map(router => (router.ip === merged.ip ? merged : router)));
+    return merged;
+  };
+
+  // Explain what has to happen before TollGate OS can be installed, or null when nothing does
+  const getInstallBlocker = (scanResult: ScanResult): string | null => {
+    const fingerprint = scanResult.meta?.fingerprint;
+    if (!fingerprint) {
+      return scanResult.meta?.isOpenwrt ? null : 'Router does not appear to be running OpenWrt, which is required for TollGateOS.';
     }
+    if (fingerprint.installable) return null;
+    return `${scanResult.ip} is running ${fingerprint.description}. ${fingerprint.firstStageStep || ''}`.trim();
   };
 
   // Select a router and prepare for installation or password entry
-  const selectRouter = async (ip: string, version?: string, manualEntry?: boolean, releaseEvent?: NDKEvent) => {
+  const selectRouter = async (
+    ip: string,
+    version?: string,
+    manualEntry?: boolean,
+    releaseEvent?: NDKEvent,
+    mode: InstallMode = 'clean'
+  ) => {
     try {
       console.log(`Starting router selection for IP: ${ip}, with release:`, releaseEvent);
       
+      // Dev builds are untested, so the operator has to confirm each one explicitly
+      if (releaseEvent && getReleaseChannel(releaseEvent) === 'dev') {
+        const confirmed = window.confirm(
+          `${getReleaseVersion(releaseEvent)} is a dev channel build. It has not been tested and may leave ` +
+          `${ip} unusable until it is reflashed.\n\nInstall this dev build anyway?`
+        );
+        if (!confirmed) return;
+      }
+      
       // Important: First store any provided release event to ensure it's available
       if (releaseEvent) {
         console.log(`Storing release event for ${ip}:`, releaseEvent);
         setSelectedRelease(releaseEvent);
       }
+      setInstallMode(mode);
       
       // Find the selected router from our scan results
       let selectedScanResult = routers.find(router => router.ip === ip);
@@ -139,16 +283,35 @@ const App: React.FC = () => {
       // Only try to connect if SSH is open
       if (selectedScanResult.sshOpen) {
         console.log(`Attempting SSH connection to ${ip}`);
-        const connection = await window.electron.connectSsh(ip, '');
+        let connection = await connectWithSavedAuth(ip);
+        
+        // Never send credentials to a router whose host key changed unless the user says so
+        if (!connection.success && connection.hostKeyChanged) {
+          const trustNewKey = window.confirm(`${connection.error}\n\nTrust the new host key for ${ip}?`);
+          if (!trustNewKey) {
+            setError(connection.error || `The host key of ${ip} has changed.`);
+            setStage(Stage.SCANNING);
+            return;
+          }
+          await window.electron.forgetHostKey(ip);
+          connection = await connectWithSavedAuth(ip);
+        }
         
         if (connection.success) {
-          // Connection successful
-          if (isOpenwrt) {
+          // Connection successful; identify the firmware now that we can log in
+          const checkedResult = await refreshRouter(selectedScanResult);
+          const blocker = getInstallBlocker(checkedResult);
+          if (!blocker) {
             // Use a function to proceed to installation that takes all required params directly
             // This avoids issues with state updates not being immediately available
-            proceedToInstallation(ip, routerInfo, releaseEvent);
+            proceedToInstallation(ip, {
+              ...routerInfo,
+              boardName: checkedResult.meta?.boardInfo?.board_name || boardName,
+              architecture: checkedResult.meta?.boardInfo?.release?.architecture || architecture,
+              compatible: true
+            }, releaseEvent, mode);
           } else {
-            setError(`Router does not appear to be running OpenWrt, which is required for TollGateOS.`);
+            setError(blocker);
             setStage(Stage.SCANNING);
           }
         } else {
@@ -157,8 +320,8 @@ const App: React.FC = () => {
           setStage(Stage.PASSWORD_ENTRY);
         }
       } else {
-        // SSH not open
-        setError('SSH is not available on this router. Please enable SSH to install TollGateOS.');
+        // SSH not open; stock firmware fingerprints say how to get SSH or OpenWrt onto the router
+        setError(getInstallBlocker(selectedScanResult) || 'SSH is not available on this router. Please enable SSH to install TollGateOS.');
         setStage(Stage.SCANNING);
       }
     } catch (err) {
@@ -166,60 +329,37 @@ const App: React.FC = () => {
     }
   };
 
-  // New function to handle the installation process with all required parameters
-  const proceedToInstallation = async (ip: string, router: RouterInfo, release: NDKEvent) => {
-    console.log(`Proceeding to installation for IP: ${ip}`);
-    console.log('Router info:', router);
-    console.log('Release:', release);
+  // Queue the installation and switch to the dashboard
+  const proceedToInstallation = async (ip: string, router: RouterInfo, release: NDKEvent, mode: InstallMode) => {
+    console.log(`Queueing installation for IP: ${ip}`, router, release);
     
     // Make sure states are set (even if we already have the values as params)
     setSelectedRouter(router);
     setSelectedRelease(release);
+    setError(null);
     
-    // Change the stage to installing
-    setStage(Stage.INSTALLING);
-    
-    // Wait a tiny bit to ensure React has updated the UI
-    await new Promise(resolve => setTimeout(resolve, 50));
-    
-    // Start the installation using the parameters directly
-    try {
-      await installTollgateWithParams(ip, release);
-    } catch (err) {
-      console.error('Installation error:', err);
-      setError('Error during installation: ' + (err instanceof Error ? err.message : String(err)));
-    }
-  };
-  
-  // Direct installation function that takes the release as a parameter
-  const installTollgateWithParams = async (ip: string, release: NDKEvent) => {
     try {
-      // Reset installation state
-      setError(null);
-      setInstallProgress(0);
-      setCurrentInstallStep('');
-      setFailedStep(null);
-      
-      console.log(`Installing TollGate OS directly on ${ip} with release:`, release);
-      
-      // Start the installation process using the provided release
-      const result = await window.electron.installTollgate(ip, release.serialize());
+      const result = await window.electron.enqueueInstall(ip, release.serialize(true, true), {
+        releaseId: release.id,
+        releaseVersion: getReleaseVersion(release)
+      }, {
+        authorizedKeyPath: keyAuth.enabled && keyAuth.installPublicKey ? keyAuth.privateKeyPath : undefined,
+        mode,
+        // selectRouter only gets this far with a dev release once the operator confirmed it
+        confirmDevRelease: getReleaseChannel(release) === 'dev'
+      });
       
-      // Update based on final result
-      if (result.success) {
-        setStage(Stage.COMPLETE);
-      } else {
-        setError(`Installation failed at step "${result.step}": ${result.error || 'Unknown error'}`);
-        setFailedStep(result.step);
-        // Stay on the installer page
+      if (!result.success) {
+        setError(`Could not start installation on ${ip}: ${result.error || 'Unknown error'}`);
       }
     } catch (err) {
-      console.error('Error in direct installation:', err);
-      setError('Error during installation: ' + (err instanceof Error ? err.message : String(err)));
-      setFailedStep('unknown');
+      console.error('Error queueing installation:', err);
+      setError('Error starting installation: ' + (err instanceof Error ? err.message : String(err)));
     }
+    
+    setStage(Stage.DASHBOARD);
   };
-
+  
   // Submit password and retry connection
   const submitPassword = async () => {
     try {
@@ -235,16 +375,32 @@ const App: React.FC = () => {
         return;
       }
       
+      const keyCredentials = getKeyCredentials();
+      if (keyCredentials && !keyCredentials.privateKeyPath && !keyCredentials.useAgent) {
+        setError('Choose a private key file or enable the SSH agent.');
+        return;
+      }
+      
       setError(null);
-      const connection = await window.electron.connectSsh(selectedRouter.ip, password);
+      const connection = await window.electron.connectSsh(selectedRouter.ip, keyCredentials || password);
       
       if (connection.success) {
-        // Connection successful with password, proceed to installation if it's OpenWrt
-        if (selectedRouter.compatible) {
+        // Connection successful with password; the scan could not log in, so identify the firmware now
+        const scanResult = routers.find(router => router.ip === selectedRouter.ip);
+        const checkedResult = scanResult ? await refreshRouter(scanResult) : await window.electron.checkDevice(selectedRouter.ip);
+        const blocker = checkedResult
+          ? getInstallBlocker(checkedResult)
+          : (selectedRouter.compatible ? null : 'Router does not appear to be running OpenWrt, which is required for TollGateOS.');
+        if (!blocker) {
           // Use the direct proceed function with the current state values
-          proceedToInstallation(selectedRouter.ip, selectedRouter, selectedRelease);
+          proceedToInstallation(selectedRouter.ip, {
+            ...selectedRouter,
+            boardName: checkedResult?.meta?.boardInfo?.board_name || selectedRouter.boardName,
+            architecture: checkedResult?.meta?.boardInfo?.release?.architecture || selectedRouter.architecture,
+            compatible: true
+          }, selectedRelease, installMode);
         } else {
-          setError(`Router does not appear to be running OpenWrt, which is required for TollGateOS.`);
+          setError(blocker);
           setStage(Stage.SCANNING);
         }
       } else {
@@ -261,80 +417,51 @@ const App: React.FC = () => {
     }
   };
 
-  // Install TollGate OS
-  const installTollgate = async (ip: string) => {
-    try {
-      // Reset installation state
-      setError(null);
-      setInstallProgress(0);
-      setCurrentInstallStep('');
-      setFailedStep(null);
-      
-      if (!selectedRelease) {
-        // Log what's happening for debugging
-        console.log('No release selected for installation. Router IP:', ip);
-        console.log('Selected router info:', selectedRouter);
-        
-        // Check if the router was manually added
-        const routerInList = routers.find(router => router.ip === ip);
-        if (routerInList) {
-          // The router exists in our list, but no release was selected
-          setError('No release selected. Please select a release before installing.');
-          setStage(Stage.SCANNING);
-          return;
-        } else {
-          // Something went wrong with the router data
-          setError('Router information not found. Please try adding the router again.');
-          setStage(Stage.SCANNING);
-          return;
-        }
-      }
-      
-      console.log(`Installing TollGate OS on ${ip} with release:`, selectedRelease);
-      
-      // Set up event listener for installation progress updates
-      const onInstallProgress = (result: { success: boolean; step: string; progress: number; error?: string }) => {
-        console.log('Installation progress:', result);
-        
-        // Update the current step
-        setCurrentInstallStep(result.step);
-        
-        // Update progress
-        setInstallProgress(result.progress);
-        
-        // If there's an error, update the error state and record which step failed
-        if (!result.success && result.error) {
-          setError(`Error during ${result.step}: ${result.error}`);
-          setFailedStep(result.step);
-        }
-      };
-      
-      // Start the installation process
-      const result = await window.electron.installTollgate(ip, selectedRelease.serialize());
-      
-      // Update based on final result
-      if (result.success) {
-        setStage(Stage.COMPLETE);
-      } else {
-        setError(`Installation failed at step "${result.step}": ${result.error || 'Unknown error'}`);
-        setFailedStep(result.step);
-        // Stay on the installer page instead of returning to scanner
-        // setStage(Stage.SCANNING);
-      }
-    } catch (err) {
-      setError('Error during installation: ' + (err instanceof Error ? err.message : String(err)));
-      setFailedStep('unknown');
-      // Stay on the installer page instead of returning to scanner
-      // setStage(Stage.SCANNING);
+  // Look up what we know about a router from the scan results
+  const getRouterInfo = (ip: string): RouterInfo => {
+    const scanResult = routers.find(router => router.ip === ip);
+    return {
+      ip,
+      boardName: scanResult?.meta?.boardInfo?.board_name,
+      architecture: scanResult?.meta?.boardInfo?.release?.architecture,
+      compatible: scanResult?.meta?.isOpenwrt
+    };
+  };
+
+  // Show the completion screen for a finished job
+  const viewCompletedJob = (job: InstallJob) => {
+    setSelectedRouter({ ...getRouterInfo(job.ip), installedVersion: job.installedVersion });
+    setStage(Stage.COMPLETE);
+  };
+
+  const cancelInstall = async (job: InstallJob) => {
+    setError(null);
+    const result = await window.electron.cancelInstall(job.ip);
+    if (!result.success) {
+      setError(`Could not cancel installation on ${job.ip}: ${result.error || 'Unknown error'}`);
     }
   };
 
+  const changeInstallConcurrency = async (concurrency: number) => {
+    setInstallConcurrency(await window.electron.setInstallConcurrency(concurrency));
+  };
+
+  const changeReleaseChannel = async (channel: ReleaseChannel) => {
+    setReleaseChannel(channel);
+    const result = await window.electron.updateSettings({ defaultReleaseChannel: channel });
+    if (!result.success) {
+      setError(`Could not save the release channel: ${result.error || 'Unknown error'}`);
+    }
+  };
+
+  const clearFinishedInstalls = async () => {
+    setInstallJobs(await window.electron.clearFinishedInstalls());
+  };
 
   // Reset to start a new installation
   const startNewInstall = () => {
     setSelectedRouter(null);
     setPassword('');
-    setInstallProgress(0);
     setError(null);
     setStage(Stage.WELCOME);
     scanForRouters();
@@ -353,38 +480,61 @@ const App: React.FC = () => {
         {stage === Stage.SCANNING && (
           <RouterScanner
             routers={routers}
-            onSelectRouter={(ip, version, manualEntry, releaseEvent) => selectRouter(ip, version, manualEntry, releaseEvent)}
+            onSelectRouter={(ip, version, manualEntry, releaseEvent, mode) => selectRouter(ip, version, manualEntry, releaseEvent, mode)}
             error={error}
+            isScanning={isScanning}
+            scanProgress={scanProgress}
             onRescan={scanForRouters}
+            scanProfileId={scanProfileId}
+            onScanProfileChange={setScanProfileId}
+            releaseChannel={releaseChannel}
+            onReleaseChannelChange={changeReleaseChannel}
             setRouters={setRouters}
+            activeInstallCount={installJobs.filter(job => job.state === 'queued' || job.state === 'running').length}
+            onShowInstalls={installJobs.length > 0 ? () => setStage(Stage.DASHBOARD) : undefined}
+            onShowSettings={() => setStage(Stage.SETTINGS)}
           />
         )}
         
+        {stage === Stage.SETTINGS && (
+          <RelaySettings onBack={() => setStage(Stage.SCANNING)} />
+        )}
+        
         {stage === Stage.PASSWORD_ENTRY && (
           <PasswordEntry
             router={selectedRouter}
             routerIp={selectedRouter?.ip || ''}
             password={password}
             setPassword={setPassword}
+            keyAuth={keyAuth}
+            setKeyAuth={setKeyAuth}
             onSubmit={submitPassword}
             error={error}
             onBack={() => setStage(Stage.SCANNING)}
           />
         )}
         
-        {stage === Stage.INSTALLING && (
-          <Installer
-            router={selectedRouter}
-            progress={installProgress}
+        {stage === Stage.DASHBOARD && (
+          <InstallDashboard
+            jobs={installJobs}
+            routers={routers}
             error={error}
-            currentStep={currentInstallStep}
-            failedStep={failedStep}
+            concurrency={installConcurrency}
+            onConcurrencyChange={changeInstallConcurrency}
+            onClearFinished={clearFinishedInstalls}
+            onViewJob={viewCompletedJob}
+            onCancelJob={cancelInstall}
+            onAddRouter={() => {
+              setError(null);
+              setStage(Stage.SCANNING);
+            }}
           />
         )}
         
         {stage === Stage.COMPLETE && (
           <Complete
             router={selectedRouter}
+            releaseChannel={releaseChannel}
             onFlashNext={startNewInstall}
           />
         )}
@@ -3,12 +3,15 @@ import { useNostrReleases } from './NostrReleaseProvider';
 import styled from 'styled-components';
 import PageContainer from './common/PageContainer';
 import Button from './common/Button';
-import { getReleaseVersion } from '../utils/releaseUtils';
+import { getReleaseVersion, findNewestCompatibleRelease, filterReleasesByChannel, compareVersions, formatVersion } from '../utils/releaseUtils';
+import { ReleaseChannel } from '../../shared/types';
 
 interface RouterInfo {
   ip: string;
   boardName?: string;
   architecture?: string;
+  // Version the router reported after the install
+  installedVersion?: string;
 }
 
 interface UpdateInfo {
@@ -20,6 +23,8 @@ interface UpdateInfo {
 
 interface CompleteProps {
   router: RouterInfo | null;
+  // Only releases on this channel are suggested as upgrades
+  releaseChannel: ReleaseChannel;
   onFlashNext: () => void;
 }
 
@@ -92,15 +97,19 @@ const FlashNextDescription = styled.p`
 
 const Complete: React.FC<CompleteProps> = ({
   router,
+  releaseChannel,
   onFlashNext
 }) => {
   const { releases, loading, error } = useNostrReleases();
   
-  // Create updateInfo from releases data
-  const updateInfo = releases.length > 0 ? {
-    latest: getReleaseVersion(releases[0]) || 'unknown',
-    installed: 'v0.0.0', // Placeholder for installed version
-    canUpgrade: true, // Simplified logic, assumes newer version is available
+  // Compare the installed version with the newest release for this board
+  const latestRelease = findNewestCompatibleRelease(releases, router?.boardName, router?.architecture, releaseChannel)
+    || filterReleasesByChannel(releases, releaseChannel)[0];
+  const installed = router?.installedVersion;
+  const updateInfo: UpdateInfo | null = latestRelease ? {
+    latest: formatVersion(getReleaseVersion(latestRelease)),
+    installed: installed && installed !== 'unknown' ? formatVersion(installed) : 'Unknown',
+    canUpgrade: !!installed && installed !== 'unknown' && compareVersions(getReleaseVersion(latestRelease), installed) > 0,
   } : null;
   
   const hasUpdate = updateInfo?.canUpgrade || false;
@@ -0,0 +1,140 @@
+import React from 'react';
+import styled from 'styled-components';
+import Button from './common/Button';
+import PageContainer from './common/PageContainer';
+import InstallJobCard from './InstallJobCard';
+import { InstallJob, ScanResult } from '../../shared/types';
+
+interface InstallDashboardProps {
+  jobs: InstallJob[];
+  routers: ScanResult[];
+  error: string | null;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onClearFinished: () => void;
+  onViewJob: (job: InstallJob) => void;
+  onCancelJob: (job: InstallJob) => void;
+  onAddRouter: () => void;
+}
+
+const ErrorMessage = styled.div`
+  color: ${props => props.theme.colors.error};
+  background-color: ${props => props.theme.colors.primaryLight};
+  padding: 1rem;
+  border-radius: ${props => props.theme.radii.md};
+  margin-bottom: 1rem;
+`;
+
+const Summary = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 1rem;
+  margin-bottom: 1.5rem;
+  color: ${props => props.theme.colors.textSecondary};
+`;
+
+const ConcurrencyControl = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.text};
+`;
+
+const ConcurrencySelect = styled.select`
+  padding: 0.25rem 0.5rem;
+  border: 1px solid ${props => props.theme.colors.border};
+  border-radius: ${props => props.theme.radii.sm};
+  font-size: ${props => props.theme.fontSizes.sm};
+`;
+
+const JobGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(260px, 1fr));
+  gap: 1rem;
+`;
+
+const NoJobsMessage = styled.div`
+  text-align: center;
+  padding: 2rem;
+  color: ${props => props.theme.colors.textSecondary};
+`;
+
+const FooterButtons = styled.div`
+  display: flex;
+  justify-content: center;
+  gap: 1rem;
+  margin-top: 2rem;
+`;
+
+const InstallDashboard: React.FC<InstallDashboardProps> = ({
+  jobs,
+  routers,
+  error,
+  concurrency,
+  onConcurrencyChange,
+  onClearFinished,
+  onViewJob,
+  onCancelJob,
+  onAddRouter
+}) => {
+  const count = (state: InstallJob['state']) => jobs.filter(job => job.state === state).length;
+  const finishedCount = count('succeeded') + count('failed') + count('cancelled');
+
+  return (
+    <PageContainer
+      title="Installing TollGateOS"
+      subtitle="Follow the progress of every router being flashed"
+      wide
+    >
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+
+      <Summary>
+        <span>
+          {count('running')} running • {count('queued')} queued • {count('succeeded')} done • {count('failed')} failed
+          {count('cancelled') > 0 && ` • ${count('cancelled')} cancelled`}
+        </span>
+        <ConcurrencyControl>
+          Parallel installs:
+          <ConcurrencySelect
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+          >
+            {[1, 2, 3, 4, 5, 6, 8, 10].map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </ConcurrencySelect>
+        </ConcurrencyControl>
+      </Summary>
+
+      {jobs.length === 0 ? (
+        <NoJobsMessage>No installations yet. Add a router to get started.</NoJobsMessage>
+      ) : (
+        <JobGrid>
+          {jobs.map(job => (
+            <InstallJobCard
+              key={job.id}
+              job={job}
+              router={routers.find(router => router.ip === job.ip)}
+              onView={onViewJob}
+              onCancel={onCancelJob}
+            />
+          ))}
+        </JobGrid>
+      )}
+
+      <FooterButtons>
+        <Button variant="primary" onClick={onAddRouter}>
+          Add Another Router
+        </Button>
+        <Button variant="outline" onClick={onClearFinished} disabled={finishedCount === 0}>
+          Clear Finished
+        </Button>
+      </FooterButtons>
+    </PageContainer>
+  );
+};
+
+export default InstallDashboard;
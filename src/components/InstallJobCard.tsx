@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import Button from './common/Button';
+import ProgressBar from './common/ProgressBar';
+import { InstallJob, ScanResult } from '../../shared/types';
+import { installSteps, getInstallStepIndex, formatBytes } from '../utils/installSteps';
+import { formatVersion } from '../utils/releaseUtils';
+
+// Types
+interface InstallJobCardProps {
+  job: InstallJob;
+  router?: ScanResult;
+  onView: (job: InstallJob) => void;
+  onCancel: (job: InstallJob) => void;
+}
+
+// Styled components
+const JobCardContainer = styled.div<{ $state: InstallJob['state'] }>`
+  display: flex;
+  flex-direction: column;
+  padding: 1rem;
+  text-align: left;
+  border: 1px solid ${props => {
+    if (props.$state === 'failed') return props.theme.colors.error;
+    if (props.$state === 'succeeded') return props.theme.colors.success;
+    return props.theme.colors.border;
+  }};
+  border-radius: ${props => props.theme.radii.md};
+  transition: all ${props => props.theme.transitions.fast};
+`;
+
+const JobHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+`;
+
+const JobIP = styled.div`
+  font-weight: ${props => props.theme.fontWeights.medium};
+  font-size: ${props => props.theme.fontSizes.md};
+`;
+
+const JobState = styled.span<{ $state: InstallJob['state'] }>`
+  font-size: ${props => props.theme.fontSizes.xs};
+  font-weight: ${props => props.theme.fontWeights.semibold};
+  text-transform: uppercase;
+  color: ${props => {
+    if (props.$state === 'failed') return props.theme.colors.error;
+    if (props.$state === 'succeeded') return props.theme.colors.success;
+    if (props.$state === 'running') return props.theme.colors.primary;
+    return props.theme.colors.textSecondary;
+  }};
+`;
+
+const JobDetail = styled.div`
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.textSecondary};
+  margin-top: 0.25rem;
+`;
+
+const JobStep = styled.div`
+  font-size: ${props => props.theme.fontSizes.sm};
+  font-weight: ${props => props.theme.fontWeights.medium};
+  color: ${props => props.theme.colors.text};
+`;
+
+const JobError = styled.div`
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.error};
+  margin-top: 0.25rem;
+  word-break: break-word;
+`;
+
+const SafetyNote = styled.div<{ $safe: boolean }>`
+  font-size: ${props => props.theme.fontSizes.xs};
+  color: ${props => props.$safe ? props.theme.colors.textSecondary : props.theme.colors.warning};
+  margin-top: 0.25rem;
+`;
+
+const JobActions = styled.div`
+  display: flex;
+  gap: 0.5rem;
+  margin-top: 0.75rem;
+`;
+
+const LogList = styled.pre`
+  margin-top: 0.75rem;
+  padding: 0.75rem;
+  max-height: 140px;
+  overflow-y: auto;
+  white-space: pre-wrap;
+  word-break: break-all;
+  font-size: ${props => props.theme.fontSizes.xs};
+  color: ${props => props.theme.colors.textSecondary};
+  background-color: ${props => props.theme.colors.backgroundAlt};
+  border-radius: ${props => props.theme.radii.md};
+`;
+
+// Component
+const InstallJobCard: React.FC<InstallJobCardProps> = ({ job, router, onView, onCancel }) => {
+  const [showLog, setShowLog] = useState(false);
+
+  const isActive = job.state === 'queued' || job.state === 'running';
+  const stepIndex = getInstallStepIndex(job.step);
+  let stepTitle = job.step;
+  if (job.state === 'queued') {
+    stepTitle = 'Waiting for a free install slot';
+  } else if (job.state === 'succeeded') {
+    stepTitle = job.installedVersion
+      ? `Installation complete, router reports TollGate ${formatVersion(job.installedVersion)}`
+      : 'Installation complete';
+  } else if (job.state === 'cancelled') {
+    stepTitle = 'Installation cancelled';
+  } else if (stepIndex >= 0) {
+    stepTitle = `Step ${stepIndex + 1} of ${installSteps.length}: ${installSteps[stepIndex].title}`;
+  }
+
+  // Describe byte-level progress for the download and transfer steps
+  let transferDetail: string | null = null;
+  if (job.state === 'running' && job.step === 'downloading' && job.bytesDownloaded !== undefined) {
+    transferDetail = job.totalBytes
+      ? `${formatBytes(job.bytesDownloaded)} of ${formatBytes(job.totalBytes)} downloaded`
+      : `${formatBytes(job.bytesDownloaded)} downloaded`;
+  } else if (job.state === 'running' && job.step === 'transferring' && job.bytesTransferred !== undefined) {
+    transferDetail = job.totalBytes
+      ? `${formatBytes(job.bytesTransferred)} of ${formatBytes(job.totalBytes)} transferred`
+      : `${formatBytes(job.bytesTransferred)} transferred`;
+  }
+
+  return (
+    <JobCardContainer $state={job.state}>
+      <JobHeader>
+        <JobIP>{job.ip}</JobIP>
+        <JobState $state={job.state}>{job.state}</JobState>
+      </JobHeader>
+      <JobDetail>
+        {router?.meta?.boardInfo?.board_name || 'Unknown model'}
+        {job.releaseVersion && ` • TollGate OS ${job.releaseVersion}`}
+      </JobDetail>
+
+      <ProgressBar
+        progress={job.progress}
+        color={job.state === 'failed' ? 'error' : (job.state === 'succeeded' ? 'success' : 'primary')}
+      />
+
+      <JobStep>{stepTitle}</JobStep>
+      {transferDetail && <JobDetail>{transferDetail}</JobDetail>}
+      {job.error && job.state !== 'cancelled' && <JobError>{job.error}</JobError>}
+      {job.state === 'running' && (
+        <SafetyNote $safe={job.cancellable}>
+          {job.cancellable
+            ? 'Safe to cancel until the firmware is written'
+            : 'Do not power off the router until the install finishes'}
+        </SafetyNote>
+      )}
+
+      <JobActions>
+        <Button
+          variant="text"
+          size="small"
+          onClick={() => setShowLog(!showLog)}
+          disabled={job.logs.length === 0}
+        >
+          {showLog ? 'Hide Log' : 'Show Log'}
+        </Button>
+        {isActive && (
+          <Button
+            variant="outline"
+            size="small"
+            onClick={() => onCancel(job)}
+            disabled={!job.cancellable}
+          >
+            Cancel
+          </Button>
+        )}
+        {job.state === 'succeeded' && (
+          <Button variant="outline" size="small" onClick={() => onView(job)}>
+            Details
+          </Button>
+        )}
+      </JobActions>
+
+      {showLog && job.logs.length > 0 && (
+        <LogList>{job.logs.join('\n')}</LogList>
+      )}
+    </JobCardContainer>
+  );
+};
+
+export default InstallJobCard;
@@ -1,19 +1,31 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import NDK, { NDKEvent, NDKFilter } from '@nostr-dev-kit/ndk';
-import { isReleaseCompatible } from '../utils/releaseUtils';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { NDKEvent, NostrEvent } from '@nostr-dev-kit/ndk';
+import { sortReleasesByVersion } from '../utils/releaseUtils';
+import { OfflineImportResult, RelayHealth } from '../../shared/types';
 
 // Define the context type
 interface NostrReleaseContextType {
   releases: NDKEvent[];
   loading: boolean;
   error: string | null;
+  offlineReleaseIds: Set<string>;
+  importOfflineLibrary: () => Promise<OfflineImportResult | null>;
+  // Relays from the main process settings, and how each one is doing
+  relayUrls: string[];
+  relayHealth: RelayHealth[];
+  saveRelayUrls: (relayUrls: string[]) => Promise<{ success: boolean; error?: string }>;
 }
 
 // Create context with default values
 const NostrReleaseContext = createContext<NostrReleaseContextType>({
   releases: [],
   loading: true,
-  error: null
+  error: null,
+  offlineReleaseIds: new Set(),
+  importOfflineLibrary: async () => null,
+  relayUrls: [],
+  relayHealth: [],
+  saveRelayUrls: async () => ({ success: false })
 });
 
 // Custom hook to use the context
@@ -25,135 +37,94 @@ interface NostrReleaseProviderProps {
 
 const NostrReleaseProvider: React.FC<NostrReleaseProviderProps> = ({ children }) => {
   const [releases, setReleases] = useState<NDKEvent[]>([]);
+  const [offlineReleases, setOfflineReleases] = useState<NDKEvent[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [relayUrls, setRelayUrls] = useState<string[]>([]);
+  const [relayHealth, setRelayHealth] = useState<RelayHealth[]>([]);
   
-  // Nostr constants
-  const TOLLGATE_OS_PUBKEY = '5075e61f0b048148b60105c1dd72bbeae1957336ae5824087e52efa374f8416a';
-  const UPDATE_KIND = 1063; // NIP-94 kind for file metadata
+  // The main process owns the relay list
+  useEffect(() => {
+    window.electron.getSettings().then(settings => setRelayUrls(settings.relayUrls));
+  }, []);
   
+  // The main process fetches and verifies releases; follow its list as it changes
   useEffect(() => {
-    let ndk: NDK;
-    let hasReceivedEvents = false;
-    
-    const connectToNostr = async () => {
-      try {
-        console.log("NostrReleaseProvider: Initializing NDK");
-        
-        // Initialize NDK with default relays
-        ndk = new NDK({
-          explicitRelayUrls: [
-            'wss://relay.damus.io',
-            'wss://relay.nostr.band',
-            'wss://nos.lol'
-          ]
-        });
-        
-        // Connect to relays
-        await ndk.connect();
-        
-        // Create a filter for NIP-94 events from the TollGateOS publisher
-        const filter: NDKFilter = {
-          kinds: [UPDATE_KIND],
-          authors: [TOLLGATE_OS_PUBKEY],
-          since: 1747216016,
-        };
-        
-        
-        // Subscribe to events
-        const subscription = ndk.subscribe(filter, { closeOnEose: false });
-        
-        // Handle events as they arrive
-        subscription.on('event', (event: NDKEvent) => {
-          hasReceivedEvents = true; // Mark that we've received at least one event
-          
-          // Add event to state if it's not already there
-          setReleases(prevReleases => {
-            // Check if event already exists in array
-            const eventExists = prevReleases.some(e => e.id === event.id);
-            if (!eventExists) {
-              // Sort by created_at (newest first)
-              const newReleases = [...prevReleases, event].sort(
-                (a, b) => (b.created_at || 0) - (a.created_at || 0)
-              );
-              return newReleases;
-            }
-            return prevReleases;
-          });
-          setLoading(false);
-        });
-        
-        subscription.on('eose', () => {
-          // Only use mock data if we haven't received any events
-          if (!hasReceivedEvents) {
-            console.log("NostrReleaseProvider: No events received, using mock data");
-            setReleases(getMockReleases(ndk));
-          }
-          setLoading(false);
-        });
-        
-      } catch (err) {
-        console.error("NostrReleaseProvider: Error connecting to Nostr:", err);
-        setError(`Failed to connect to Nostr: ${err instanceof Error ? err.message : String(err)}`);
-        setLoading(false);
-        
-        // Provide mock data for testing
-        setReleases(getMockReleases(ndk!));
-      }
-    };
+    const toEvents = (rawEvents: NostrEvent[]) => rawEvents.map(rawEvent => new NDKEvent(undefined, rawEvent));
+    const unsubscribe = window.electron.onReleasesChanged(rawEvents => {
+      setReleases(toEvents(rawEvents));
+      setLoading(false);
+    });
     
-    connectToNostr();
+    window.electron.listReleases()
+      .then(rawEvents => setReleases(toEvents(rawEvents)))
+      .catch(err => {
+        console.error("NostrReleaseProvider: Error listing releases:", err);
+        setError(`Failed to load releases: ${err instanceof Error ? err.message : String(err)}`);
+      })
+      .finally(() => setLoading(false));
     
-    // Cleanup function
-    return () => {
-      // Disconnect NDK when component unmounts
-      if (ndk) {
-        console.log("NostrReleaseProvider: Disconnecting from relays");
-        // ndk.pool.close(); // In newer versions of NDK
-      }
-    };
+    return unsubscribe;
   }, []);
   
-  /**
-   * Creates mock releases for testing when Nostr connection fails
-   */
-  const getMockReleases = (ndk: NDK): NDKEvent[] => {
-    console.log("NostrReleaseProvider: Creating mock releases");
-    
-    // Create a few mock events based on the example JSON structure
-    const mockReleases = [];
-    
-    for (let i = 0; i < 3; i++) {
-      const event = new NDKEvent(ndk);
-      event.kind = UPDATE_KIND;
-      event.pubkey = TOLLGATE_OS_PUBKEY;
-      event.created_at = Math.floor(Date.now() / 1000) - (i * 86400); // Today, yesterday, etc.
-      
-      // Add tags similar to the example
-      event.tags = [
-        ["url", `https://example.com/firmware${i}.bin`],
-        ["m", "application/octet-stream"],
-        ["filename", `openwrt-23.05.${3-i}-gl-mt600${i}-squashfs-sysupgrade.bin`],
-        ["architecture", "aarch64_cortex-a53"],
-        ["model", `gl-mt600${i}`],
-        ["openwrt_version", `23.05.${3-i}`],
-        ["tollgate_os_version", `v0.0.${i}`]
-      ];
-      
-      event.content = `TollGate OS Firmware for gl-mt600${i}`;
-      
-      mockReleases.push(event);
+  useEffect(() => {
+    window.electron.getRelayHealth().then(setRelayHealth);
+    return window.electron.onRelayHealthChanged(setRelayHealth);
+  }, []);
+  
+  // Save a new relay list in the main process and reconnect to it
+  const saveRelayUrls = useCallback(async (urls: string[]) => {
+    const result = await window.electron.updateSettings({ relayUrls: urls });
+    if (result.success && result.settings) {
+      setRelayUrls(result.settings.relayUrls);
+      return { success: true };
     }
-    
-    console.log("NostrReleaseProvider: Created mock releases:", mockReleases);
-    return mockReleases;
-  };
+    return { success: false, error: result.error || 'Could not save the relay list' };
+  }, []);
+  
+  // Load releases previously imported from disk/USB through the main process
+  const loadOfflineReleases = useCallback(async () => {
+    try {
+      const rawEvents = await window.electron.listOfflineReleases();
+      setOfflineReleases(rawEvents.map(rawEvent => new NDKEvent(undefined, rawEvent)));
+    } catch (err) {
+      console.error("NostrReleaseProvider: Error loading offline releases:", err);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadOfflineReleases();
+  }, [loadOfflineReleases]);
+  
+  const importOfflineLibrary = useCallback(async () => {
+    const result = await window.electron.importOfflineLibrary();
+    if (result && result.imported > 0) {
+      await loadOfflineReleases();
+    }
+    return result;
+  }, [loadOfflineReleases]);
+  
+  // Offline releases are listed alongside relay releases, without duplicates
+  const allReleases = useMemo(() => {
+    const relayIds = new Set(releases.map(release => release.id));
+    return sortReleasesByVersion([...releases, ...offlineReleases.filter(release => !relayIds.has(release.id))]);
+  }, [releases, offlineReleases]);
+  
+  const offlineReleaseIds = useMemo(
+    () => new Set(offlineReleases.map(release => release.id)),
+    [offlineReleases]
+  );
   
   return (
     <NostrReleaseContext.Provider value={{
-      releases,
+      releases: allReleases,
       loading,
-      error
+      error,
+      offlineReleaseIds,
+      importOfflineLibrary,
+      relayUrls,
+      relayHealth,
+      saveRelayUrls
     }}>
       {children}
     </NostrReleaseContext.Provider>
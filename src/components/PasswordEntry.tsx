@@ -12,10 +12,21 @@ interface RouterInfo {
 }
 
 
+// Key-based login settings, kept by the app so they apply to every router in the session
+export interface KeyAuthSettings {
+  enabled: boolean;
+  privateKeyPath: string;
+  passphrase: string;
+  useAgent: boolean;
+  installPublicKey: boolean;
+}
+
 interface PasswordEntryProps {
   routerIp: string;
   password: string;
   setPassword: (password: string) => void;
+  keyAuth: KeyAuthSettings;
+  setKeyAuth: (keyAuth: KeyAuthSettings) => void;
   onSubmit: (version?: string) => void;
   error: string | null;
   onBack: () => void;
@@ -99,6 +110,30 @@ const RouterInfo = styled.div`
   margin-bottom: 1.5rem;
 `;
 
+const KeyPathRow = styled.div`
+  display: flex;
+  align-items: flex-end;
+  gap: 0.5rem;
+  
+  > div {
+    flex: 1;
+  }
+  
+  > button {
+    margin-bottom: 1rem;
+  }
+`;
+
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  margin-bottom: 0.75rem;
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.text};
+  cursor: pointer;
+`;
+
 const RouterIP = styled.div`
   font-weight: ${props => props.theme.fontWeights.medium};
   font-size: ${props => props.theme.fontSizes.md};
@@ -109,6 +144,8 @@ const PasswordEntry: React.FC<PasswordEntryProps> = ({
   routerIp,
   password,
   setPassword,
+  keyAuth,
+  setKeyAuth,
   onSubmit,
   error,
   onBack,
@@ -168,6 +205,13 @@ const PasswordEntry: React.FC<PasswordEntryProps> = ({
     }
   };
 
+  const selectKeyFile = async () => {
+    const keyPath = await window.electron.selectSshKey();
+    if (keyPath) {
+      setKeyAuth({ ...keyAuth, privateKeyPath: keyPath });
+    }
+  };
+
   const toggleQrScanner = () => {
     setShowQrScanner(!showQrScanner);
   };
@@ -184,7 +228,7 @@ const PasswordEntry: React.FC<PasswordEntryProps> = ({
   return (
     <PageContainer 
       title="Router Password" 
-      subtitle="Enter the password for your router"
+      subtitle={keyAuth.enabled ? 'Log in to your router with an SSH key' : 'Enter the password for your router'}
     >
       {error && <ErrorMessage>{error}</ErrorMessage>}
       
@@ -192,13 +236,73 @@ const PasswordEntry: React.FC<PasswordEntryProps> = ({
         <RouterIP>IP Address: {routerIp}</RouterIP>
       </RouterInfo>
       
-      <InfoText>
-        Enter the root password for your router. This is typically the admin password
-        you use to access the router's settings page.
-      </InfoText>
-      
+      {keyAuth.enabled ? (
+        <>
+          <InfoText>
+            Log in as root with a private key file or the keys loaded in your SSH agent.
+          </InfoText>
+          
+          <PasswordForm onSubmit={(e) => handleSubmit(e)}>
+            <KeyPathRow>
+              <Input
+                label="Private Key File"
+                value={keyAuth.privateKeyPath}
+                onChange={(e) => setKeyAuth({ ...keyAuth, privateKeyPath: e.target.value })}
+                fullWidth
+                placeholder="~/.ssh/id_ed25519"
+                disabled={isSubmitting}
+              />
+              <Button type="button" variant="outline" onClick={selectKeyFile} disabled={isSubmitting}>
+                Browse
+              </Button>
+            </KeyPathRow>
+            <Input
+              label="Key Passphrase"
+              type="password"
+              value={keyAuth.passphrase}
+              onChange={(e) => setKeyAuth({ ...keyAuth, passphrase: e.target.value })}
+              fullWidth
+              placeholder="Leave empty if the key is not encrypted"
+              disabled={isSubmitting}
+            />
+          </PasswordForm>
+          
+          <CheckboxLabel>
+            <input
+              type="checkbox"
+              checked={keyAuth.useAgent}
+              onChange={(e) => setKeyAuth({ ...keyAuth, useAgent: e.target.checked })}
+              disabled={isSubmitting}
+            />
+            Use keys from my SSH agent
+          </CheckboxLabel>
+          <CheckboxLabel>
+            <input
+              type="checkbox"
+              checked={keyAuth.installPublicKey}
+              onChange={(e) => setKeyAuth({ ...keyAuth, installPublicKey: e.target.checked })}
+              disabled={isSubmitting || !keyAuth.privateKeyPath}
+            />
+            Install my public key on the router after flashing
+          </CheckboxLabel>
+          
+          <Button
+            variant="text"
+            fullWidth
+            onClick={() => setKeyAuth({ ...keyAuth, enabled: false })}
+            disabled={isSubmitting}
+          >
+            Use a password instead
+          </Button>
+        </>
+      ) : (
+        <InfoText>
+          Enter the root password for your router. This is typically the admin password
+          you use to access the router's settings page.
+        </InfoText>
+      )}
 
-      {!showQrScanner ? (
+      {keyAuth.enabled ? null : !showQrScanner ? (
         <>
           <PasswordForm onSubmit={(e) => handleSubmit(e)}>
             <Input
@@ -223,6 +327,16 @@ const PasswordEntry: React.FC<PasswordEntryProps> = ({
           >
             Scan Router Password QR Code
           </Button>
+          
+          <Button
+            variant="text"
+            fullWidth
+            onClick={() => setKeyAuth({ ...keyAuth, enabled: true })}
+            disabled={isSubmitting}
+            style={{ marginTop: '0.5rem' }}
+          >
+            Use an SSH key instead
+          </Button>
         </>
       ) : (
         <QrScannerContainer>
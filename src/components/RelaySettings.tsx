@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import Button from './common/Button';
+import Input from './common/Input';
+import PageContainer from './common/PageContainer';
+import { useNostrReleases } from './NostrReleaseProvider';
+import { RelayConnectionState, RelayHealth } from '../../shared/types';
+
+interface RelaySettingsProps {
+  onBack: () => void;
+}
+
+const ErrorMessage = styled.div`
+  color: ${props => props.theme.colors.error};
+  background-color: ${props => props.theme.colors.primaryLight};
+  padding: 1rem;
+  border-radius: ${props => props.theme.radii.md};
+  margin-bottom: 1rem;
+`;
+
+const RelayList = styled.div`
+  margin-bottom: 1.5rem;
+  text-align: left;
+`;
+
+const RelayRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  padding: 0.75rem 1rem;
+  border: 1px solid ${props => props.theme.colors.border};
+  border-radius: ${props => props.theme.radii.md};
+  margin-bottom: 0.5rem;
+`;
+
+const StateDot = styled.span<{ $state: RelayConnectionState }>`
+  width: 0.625rem;
+  height: 0.625rem;
+  border-radius: 50%;
+  flex-shrink: 0;
+  background-color: ${props => props.$state === 'connected'
+    ? props.theme.colors.success
+    : props.$state === 'connecting' ? props.theme.colors.warning : props.theme.colors.error};
+`;
+
+const RelayInfo = styled.div`
+  flex: 1;
+  min-width: 0;
+`;
+
+const RelayUrl = styled.div`
+  font-family: monospace;
+  font-size: ${props => props.theme.fontSizes.sm};
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const RelayStatus = styled.div`
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.textSecondary};
+  margin-top: 0.25rem;
+`;
+
+const AddRelayForm = styled.div`
+  display: flex;
+  gap: 0.5rem;
+  align-items: flex-start;
+  margin-bottom: 1rem;
+`;
+
+const FooterButtons = styled.div`
+  display: flex;
+  justify-content: center;
+  gap: 1rem;
+  margin-top: 2rem;
+`;
+
+const stateLabels: Record<RelayConnectionState, string> = {
+  connecting: 'Connecting',
+  connected: 'Connected',
+  disconnected: 'Not connected'
+};
+
+// e.g. "Connected • 120 ms • 4 releases"
+const describeHealth = (health?: RelayHealth): string => {
+  if (!health) return 'Not connected yet; save to connect';
+  const parts = [stateLabels[health.state]];
+  if (health.latencyMs !== undefined) parts.push(`${health.latencyMs} ms`);
+  parts.push(`${health.releaseEvents} release${health.releaseEvents === 1 ? '' : 's'}`);
+  if (health.lastError) parts.push(health.lastError);
+  return parts.join(' • ');
+};
+
+// Relays are matched on the URL without a trailing slash, as NDK adds one
+const sameRelay = (a: string, b: string): boolean => a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+
+const RelaySettings: React.FC<RelaySettingsProps> = ({ onBack }) => {
+  const { relayUrls, relayHealth, saveRelayUrls } = useNostrReleases();
+  const [editedUrls, setEditedUrls] = useState<string[]>(relayUrls);
+  const [newUrl, setNewUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the saved list once it has loaded from the main process
+  useEffect(() => {
+    setEditedUrls(relayUrls);
+  }, [relayUrls]);
+
+  const hasChanges = editedUrls.length !== relayUrls.length || editedUrls.some((url, i) => url !== relayUrls[i]);
+
+  const handleAdd = () => {
+    const url = newUrl.trim();
+    if (!/^wss?:\/\/[^\s]+$/.test(url)) {
+      setError('Relay URLs start with wss://, e.g. wss://relay.damus.io');
+      return;
+    }
+    if (editedUrls.some(existing => sameRelay(existing, url))) {
+      setError(`${url} is already in the list`);
+      return;
+    }
+    setEditedUrls([...editedUrls, url]);
+    setNewUrl('');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await saveRelayUrls(editedUrls);
+      if (!result.success) {
+        setError(result.error || 'Could not save the relay list');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <PageContainer
+      title="Release Relays"
+      subtitle="Nostr relays TollGate OS releases are loaded from"
+    >
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+
+      <RelayList>
+        {editedUrls.map(url => {
+          const health = relayUrls.some(saved => saved === url)
+            ? relayHealth.find(candidate => sameRelay(candidate.url, url))
+            : undefined;
+          return (
+            <RelayRow key={url}>
+              <StateDot $state={health?.state || 'disconnected'} />
+              <RelayInfo>
+                <RelayUrl title={url}>{url}</RelayUrl>
+                <RelayStatus>{describeHealth(health)}</RelayStatus>
+              </RelayInfo>
+              <Button
+                variant="text"
+                size="small"
+                onClick={() => setEditedUrls(editedUrls.filter(existing => existing !== url))}
+                disabled={editedUrls.length === 1}
+              >
+                Remove
+              </Button>
+            </RelayRow>
+          );
+        })}
+      </RelayList>
+
+      <AddRelayForm>
+        <Input
+          placeholder="wss://relay.example.com"
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          fullWidth
+        />
+        <Button variant="outline" onClick={handleAdd}>
+          Add Relay
+        </Button>
+      </AddRelayForm>
+
+      <FooterButtons>
+        <Button variant="outline" onClick={onBack}>
+          Back
+        </Button>
+        <Button variant="primary" onClick={handleSave} isLoading={isSaving} disabled={!hasChanges}>
+          Save and Reconnect
+        </Button>
+      </FooterButtons>
+    </PageContainer>
+  );
+};
+
+export default RelaySettings;
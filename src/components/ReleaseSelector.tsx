@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import Button from './common/Button';
 import { NDKEvent } from '@nostr-dev-kit/ndk';
+import { useNostrReleases } from './NostrReleaseProvider';
 import {
   isReleaseCompatible,
   getReleaseVersion,
@@ -9,12 +10,19 @@ import {
   getReleaseModel,
   getReleaseArchitecture,
   getReleaseOpenWrtVersion,
+  getReleaseChannel,
+  filterReleasesByChannel,
   truncateText
 } from '../utils/releaseUtils';
+import { RELEASE_CHANNELS } from '../../shared/release-channel';
+import { ReleaseChannel } from '../../shared/types';
 
 interface ReleaseSelectorProps {
   releases: NDKEvent[];
   routerBoardName?: string;
+  routerArchitecture?: string;
+  // Channel the workstation follows; the list starts filtered to it
+  channel?: ReleaseChannel;
   selectedReleaseId?: string;
   onReleaseSelect: (release: NDKEvent) => void;
   buttonLabel?: string;
@@ -104,6 +112,28 @@ const ReleaseTechInfo = styled.div`
   text-align: right;
 `;
 
+const ChannelFilterRow = styled.li`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.5rem 1.25rem;
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.textSecondary};
+  border-bottom: 1px solid ${props => props.theme.colors.border};
+`;
+
+const ChannelSelect = styled.select`
+  padding: 0.25rem 0.5rem;
+  border: 1px solid ${props => props.theme.colors.border};
+  border-radius: ${props => props.theme.radii.sm};
+  font-size: ${props => props.theme.fontSizes.sm};
+`;
+
+const ChannelBadge = styled.span<{ $channel: ReleaseChannel }>`
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.$channel === 'dev' ? props.theme.colors.warning : props.theme.colors.textSecondary};
+`;
+
 const ReleaseItemContent = styled.div`
   display: flex;
   flex-direction: column;
@@ -114,25 +144,46 @@ const ReleaseItemContent = styled.div`
 const ReleaseSelector: React.FC<ReleaseSelectorProps> = ({
   releases,
   routerBoardName,
+  routerArchitecture,
+  channel = 'stable',
   selectedReleaseId,
   onReleaseSelect,
   buttonLabel = 'Select Release',
   disabled = false
 }) => {
   const [showDropdown, setShowDropdown] = useState(false);
+  const [channelFilter, setChannelFilter] = useState<ReleaseChannel>(channel);
+  const { offlineReleaseIds } = useNostrReleases();
+  
+  // Follow changes to the workstation's channel
+  useEffect(() => {
+    setChannelFilter(channel);
+  }, [channel]);
   
   // Find the selected release from the ID
   const selectedRelease = releases.find(r => r.id === selectedReleaseId);
   
-  // Group releases by compatibility
-  const compatibleReleases = releases.filter(r => isReleaseCompatible(r, routerBoardName));
-  const incompatibleReleases = releases.filter(r => !isReleaseCompatible(r, routerBoardName));
+  // Group the releases on the chosen channel by compatibility
+  const channelReleases = filterReleasesByChannel(releases, channelFilter);
+  const compatibleReleases = channelReleases.filter(r => isReleaseCompatible(r, routerBoardName, routerArchitecture));
+  const incompatibleReleases = channelReleases.filter(r => !isReleaseCompatible(r, routerBoardName, routerArchitecture));
   
   // Generate button label (limited to 16 characters)
+  const selectedChannel = selectedRelease ? getReleaseChannel(selectedRelease) : undefined;
   const displayLabel = selectedRelease
-    ? `Release ${truncateText(getReleaseVersion(selectedRelease), 24)} ▼`
+    ? `Release ${truncateText(getReleaseVersion(selectedRelease), 24)}${selectedChannel !== 'stable' ? ` (${selectedChannel})` : ''} ▼`
     : `${buttonLabel} ▼`;
   
+  const renderChannelBadge = (release: NDKEvent) => {
+    const releaseChannel = getReleaseChannel(release);
+    if (releaseChannel === 'stable') return null;
+    return (
+      <ChannelBadge $channel={releaseChannel}>
+        {releaseChannel === 'dev' ? ' • Dev build, untested' : ' • Beta'}
+      </ChannelBadge>
+    );
+  };
+  
   const toggleDropdown = () => {
     if (disabled) return;
     setShowDropdown(!showDropdown);
@@ -156,6 +207,20 @@ const ReleaseSelector: React.FC<ReleaseSelectorProps> = ({
       
       {showDropdown && (
         <ReleaseList>
+          <ChannelFilterRow>
+            Channel:
+            <ChannelSelect
+              value={channelFilter}
+              onChange={(e) => setChannelFilter(e.target.value as ReleaseChannel)}
+            >
+              {RELEASE_CHANNELS.map(option => (
+                <option key={option} value={option}>
+                  {option === 'stable' ? 'Stable' : option === 'beta' ? 'Beta and stable' : 'All, including dev'}
+                </option>
+              ))}
+            </ChannelSelect>
+          </ChannelFilterRow>
+          
           {/* Render compatible releases first */}
           {compatibleReleases.map((release) => (
             <ReleaseItem
@@ -167,7 +232,8 @@ const ReleaseSelector: React.FC<ReleaseSelectorProps> = ({
               <ReleaseItemContent>
                 <ReleaseHeader>
                   <ReleaseName>
-                    {getReleaseVersion(release)} (Compatible)
+                    {getReleaseVersion(release)} (Compatible){offlineReleaseIds.has(release.id) && ' • Offline'}
+                    {renderChannelBadge(release)}
                   </ReleaseName>
                   <ReleaseDate>
                     {getReleaseDate(release)}
@@ -196,7 +262,8 @@ const ReleaseSelector: React.FC<ReleaseSelectorProps> = ({
               <ReleaseItemContent>
                 <ReleaseHeader>
                   <ReleaseName>
-                    {getReleaseVersion(release)} (Incompatible)
+                    {getReleaseVersion(release)} (Incompatible){offlineReleaseIds.has(release.id) && ' • Offline'}
+                    {renderChannelBadge(release)}
                   </ReleaseName>
                   <ReleaseDate>
                     {getReleaseDate(release)}
@@ -1,19 +1,32 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import Button from './common/Button';
 import { NDKEvent } from '@nostr-dev-kit/ndk';
 import ReleaseSelector from './ReleaseSelector';
-import { ScanResult } from '../../shared/types';
+import { ScanResult, DiscoverySource, InstallMode, ReleaseChannel } from '../../shared/types';
+import { findNewestCompatibleRelease, getReleaseVersion, getReleaseChannel, compareVersions, formatVersion } from '../utils/releaseUtils';
 
 // Types
 interface RouterItemProps {
   router: ScanResult;
   releases: NDKEvent[];
+  // Channel this workstation follows; the newest release on it is preselected
+  releaseChannel: ReleaseChannel;
   selectedReleaseId?: string;
   onReleaseSelect: (routerIp: string, release: NDKEvent) => void;
-  onConnect: (routerIp: string, releaseId?: string) => void;
+  onConnect: (routerIp: string, releaseId?: string, mode?: InstallMode) => void;
 }
 
+const discoverySourceLabels: Record<DiscoverySource, string> = {
+  interface: 'network interface',
+  route: 'default route',
+  arp: 'ARP table',
+  mdns: 'mDNS',
+  dhcp: 'DHCP lease',
+  sweep: 'subnet scan',
+  manual: 'added manually'
+};
+
 // Styled components
 const RouterItemContainer = styled.div`
   position: relative;
@@ -53,6 +66,19 @@ const RouterDetail = styled.div`
   margin-top: 0.25rem;
 `;
 
+const VersionStatus = styled.div<{ $hasUpdate: boolean }>`
+  font-size: ${props => props.theme.fontSizes.sm};
+  font-weight: ${props => props.theme.fontWeights.medium};
+  color: ${props => props.$hasUpdate ? props.theme.colors.primary : props.theme.colors.textSecondary};
+  margin-top: 0.25rem;
+`;
+
+const FirstStageNote = styled.div`
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.warning};
+  margin-top: 0.25rem;
+`;
+
 const RouterDetailsList = styled.div`
   margin-top: 0.5rem;
   border-top: 1px solid ${props => props.theme.colors.border || '#eee'};
@@ -84,10 +110,18 @@ const RouterActions = styled.div`
   gap: 0.5rem;
 `;
 
+const ModeSelect = styled.select`
+  padding: 0.25rem 0.5rem;
+  border: 1px solid ${props => props.theme.colors.border};
+  border-radius: ${props => props.theme.radii.sm};
+  font-size: ${props => props.theme.fontSizes.sm};
+`;
+
 // Component
 const RouterItem: React.FC<RouterItemProps> = ({
   router,
   releases,
+  releaseChannel,
   selectedReleaseId,
   onReleaseSelect,
   onConnect,
@@ -98,6 +132,37 @@ const RouterItem: React.FC<RouterItemProps> = ({
     meta: router.meta
   });
   
+  // Routers already on TollGate OS default to keeping their settings
+  const [installMode, setInstallMode] = useState<InstallMode>('preserve-settings');
+  
+  // Newest release for this board on the followed channel
+  const boardName = router.meta?.boardInfo?.board_name;
+  const architecture = router.meta?.boardInfo?.release?.architecture;
+  const latestRelease = findNewestCompatibleRelease(releases, boardName, architecture, releaseChannel);
+  const selectedRelease = releases.find(release => release.id === selectedReleaseId);
+  const latestVersion = latestRelease ? getReleaseVersion(latestRelease) : undefined;
+  const installedVersion = router.meta?.tollgateRelease?.version;
+  const hasUpdate = !!latestVersion && (!installedVersion || installedVersion === 'unknown' ||
+    compareVersions(latestVersion, installedVersion) > 0);
+
+  // Pre-select the newest compatible release so the dropdown is only needed to pick another one
+  useEffect(() => {
+    if (!selectedReleaseId && latestRelease) {
+      onReleaseSelect(router.ip, latestRelease);
+    }
+  }, [router.ip, selectedReleaseId, latestRelease?.id]);
+
+  let versionStatus: string | null = null;
+  if (installedVersion && latestVersion) {
+    versionStatus = hasUpdate
+      ? `TollGate ${formatVersion(installedVersion)} installed, ${formatVersion(latestVersion)} available`
+      : `TollGate ${formatVersion(installedVersion)} installed (latest)`;
+  } else if (installedVersion) {
+    versionStatus = `TollGate ${formatVersion(installedVersion)} installed`;
+  } else if (latestVersion && router.meta?.isOpenwrt) {
+    versionStatus = `TollGate not installed, ${formatVersion(latestVersion)} available`;
+  }
+  
   return (
     <RouterItemContainer>
       <RouterHeader>
@@ -110,6 +175,25 @@ const RouterItem: React.FC<RouterItemProps> = ({
             {router.meta?.isOpenwrt && router.meta.boardInfo?.board_name &&
               ` - ${router.meta.boardInfo.board_name}`}
           </RouterDetail>
+          {versionStatus && <VersionStatus $hasUpdate={hasUpdate}>{versionStatus}</VersionStatus>}
+          {router.meta?.fingerprint && (
+            <RouterDetail title={router.meta.fingerprint.evidence.join('\n')}>
+              Firmware: {router.meta.fingerprint.description}
+            </RouterDetail>
+          )}
+          {router.meta?.fingerprint?.firstStageStep && (
+            <FirstStageNote>Before installing: {router.meta.fingerprint.firstStageStep}</FirstStageNote>
+          )}
+          {selectedRelease && getReleaseChannel(selectedRelease) === 'dev' && (
+            <FirstStageNote>
+              {getReleaseVersion(selectedRelease)} is a dev build and has not been tested. You will be asked to confirm before it is installed.
+            </FirstStageNote>
+          )}
+          {router.discoveredVia && router.discoveredVia.length > 0 && (
+            <RouterDetail>
+              Found via {router.discoveredVia.map(source => discoverySourceLabels[source]).join(', ')}
+            </RouterDetail>
+          )}
           
           {router.meta?.isOpenwrt && router.meta.boardInfo && router.meta.boardInfo.release && (
             <RouterDetailsList>
@@ -127,19 +211,31 @@ const RouterItem: React.FC<RouterItemProps> = ({
         <RouterActions>
           <ReleaseSelector
             releases={releases}
-            routerBoardName={router.meta?.boardInfo?.board_name}
+            routerBoardName={boardName}
+            routerArchitecture={architecture}
+            channel={releaseChannel}
             selectedReleaseId={selectedReleaseId}
             onReleaseSelect={(release) => onReleaseSelect(router.ip, release)}
             buttonLabel="Select Release"
             disabled={router.meta?.status === 'no-ssh'}
           />
+          {installedVersion && (
+            <ModeSelect
+              value={installMode}
+              onChange={(e) => setInstallMode(e.target.value as InstallMode)}
+              title="Clean install resets the router to factory settings"
+            >
+              <option value="preserve-settings">Upgrade keeping settings</option>
+              <option value="clean">Clean install</option>
+            </ModeSelect>
+          )}
           <Button
             variant="primary"
             size="small"
-            onClick={() => onConnect(router.ip, selectedReleaseId)}
+            onClick={() => onConnect(router.ip, selectedReleaseId, installedVersion ? installMode : 'clean')}
             disabled={router.meta?.status === 'no-ssh' || !selectedReleaseId}
           >
-            Install
+            {installedVersion ? 'Upgrade' : 'Install'}
           </Button>
         </RouterActions>
       </RouterHeader>
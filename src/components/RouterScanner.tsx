@@ -6,17 +6,49 @@ import ProgressBar from './common/ProgressBar';
 import PageContainer from './common/PageContainer';
 import { useNostrReleases } from './NostrReleaseProvider';
 import RouterItem from './RouterItem';
+import ScanProfileEditor from './ScanProfileEditor';
+import { getIpAddressError } from '../utils/ipAddress';
 import { NDKEvent } from '@nostr-dev-kit/ndk';
-import { ScanResult } from '../../shared/types';
+import { ScanResult, ScanProfile, InstallMode, ReleaseChannel } from '../../shared/types';
+import { RELEASE_CHANNELS } from '../../shared/release-channel';
 
 interface RouterScannerProps {
   routers: ScanResult[];
-  onSelectRouter: (ip: string, releaseId?: string, manualEntry?: boolean, releaseEvent?: NDKEvent) => void;
+  onSelectRouter: (ip: string, releaseId?: string, manualEntry?: boolean, releaseEvent?: NDKEvent, mode?: InstallMode) => void;
   error: string | null;
+  isScanning: boolean;
+  // Percentage of hosts probed so far
+  scanProgress: number;
   onRescan: () => void;
+  // Profile used by the next scan; the default profile when undefined
+  scanProfileId?: string;
+  onScanProfileChange: (profileId: string) => void;
+  // Channel this workstation follows by default
+  releaseChannel: ReleaseChannel;
+  onReleaseChannelChange: (channel: ReleaseChannel) => void;
   setRouters?: (routers: ScanResult[]) => void;
+  activeInstallCount?: number;
+  onShowInstalls?: () => void;
+  onShowSettings: () => void;
 }
 
+const ProfileBar = styled.div`
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  margin-bottom: 1rem;
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.text};
+`;
+
+const ProfileSelect = styled.select`
+  padding: 0.25rem 0.5rem;
+  border: 1px solid ${props => props.theme.colors.border};
+  border-radius: ${props => props.theme.radii.sm};
+  font-size: ${props => props.theme.fontSizes.sm};
+`;
+
 const RouterList = styled.div`
   margin: 1.5rem 0;
 `;
@@ -104,51 +136,88 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
   routers,
   onSelectRouter,
   error,
+  isScanning,
+  scanProgress,
   onRescan,
-  setRouters
+  scanProfileId,
+  onScanProfileChange,
+  releaseChannel,
+  onReleaseChannelChange,
+  setRouters,
+  activeInstallCount = 0,
+  onShowInstalls,
+  onShowSettings
 }) => {
   // State
-  const [isScanning, setIsScanning] = useState(false);
-  const [scanProgress, setScanProgress] = useState(0);
+  const [isCheckingDevice, setIsCheckingDevice] = useState(false);
   const [selectedReleaseIds, setSelectedReleaseIds] = useState<Record<string, string>>({});
   // Store the full NDKEvent objects for selected releases
   const [selectedReleases, setSelectedReleases] = useState<Record<string, NDKEvent>>({});
   const [manualIp, setManualIp] = useState('');
   const [manualIpError, setManualIpError] = useState<string | undefined>(undefined);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
-  const { releases, loading } = useNostrReleases();
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [scanProfiles, setScanProfiles] = useState<ScanProfile[]>([]);
+  // Profile open in the editor: null while creating a new one, undefined when the editor is closed
+  const [editingProfile, setEditingProfile] = useState<ScanProfile | null | undefined>(undefined);
+  const { releases, loading, importOfflineLibrary } = useNostrReleases();
 
-  // Scanning progress effect
   useEffect(() => {
-    if (routers.length === 0 && !error) {
-      setIsScanning(true);
-      
-      const interval = setInterval(() => {
-        setScanProgress(prev => {
-          const newProgress = prev + 5;
-          if (newProgress >= 100) {
-            clearInterval(interval);
-            setIsScanning(false);
-            return 100;
-          }
-          return newProgress;
-        });
-      }, 200);
-      
-      return () => clearInterval(interval);
-    } else {
-      setIsScanning(false);
-      setScanProgress(100);
-    }
-  }, [routers, error]);
+    window.electron.listScanProfiles().then(setScanProfiles);
+  }, []);
+
+  const selectedProfile = scanProfiles.find(profile => profile.id === scanProfileId) || scanProfiles[0];
 
   // Event handlers
   const handleRescan = () => {
-    setScanProgress(0);
-    setIsScanning(true);
     onRescan();
   };
 
+  // Import releases and firmware images from a local folder (e.g. a USB stick)
+  const handleImportOfflineLibrary = async () => {
+    setIsImporting(true);
+    try {
+      const result = await importOfflineLibrary();
+      if (!result) return; // Dialog was cancelled
+      
+      if (result.errors.length > 0) {
+        const details = result.errors.map(err => `${err.file}: ${err.error}`).join('; ');
+        setImportError(`Imported ${result.imported} release(s), ${result.errors.length} failed: ${details}`);
+        setSuccessMessage(null);
+      } else {
+        setImportError(null);
+        setSuccessMessage(`Imported ${result.imported} offline release(s).`);
+      }
+    } catch (err) {
+      setImportError(`Failed to import offline library: ${err instanceof Error ? err.message : String(err)}`);
+      setSuccessMessage(null);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleProfileSaved = async (profile: ScanProfile) => {
+    setScanProfiles(await window.electron.listScanProfiles());
+    setEditingProfile(undefined);
+    onScanProfileChange(profile.id);
+  };
+
+  const handleProfileDeleted = async (id: string) => {
+    setScanProfiles(await window.electron.listScanProfiles());
+    setEditingProfile(undefined);
+    if (id === selectedProfile?.id) {
+      onScanProfileChange('default');
+    }
+  };
+
+  const handleReleaseChannelChange = (channel: ReleaseChannel) => {
+    // Drop the current picks so each router preselects the newest release on the new channel
+    setSelectedReleaseIds({});
+    setSelectedReleases({});
+    onReleaseChannelChange(channel);
+  };
+
   const handleReleaseSelect = (routerIp: string, release: NDKEvent) => {
     // Store the release ID
     setSelectedReleaseIds(prev => ({
@@ -163,19 +232,12 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
     }));
   };
 
-  const handleConnect = (routerIp: string, releaseId?: string) => {
+  const handleConnect = (routerIp: string, releaseId?: string, mode?: InstallMode) => {
     // Find the full release object if we have a releaseId
     const releaseObject = releaseId ? selectedReleases[routerIp] : undefined;
     
-    // Pass the router IP, releaseId, and the full release object
-    onSelectRouter(routerIp, releaseId, false, releaseObject);
-  };
-
-  // Validate IP address format
-  const validateIpAddress = (ip: string): boolean => {
-    // Regular expression for IPv4 validation
-    const ipRegex = /^(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
-    return ipRegex.test(ip);
+    // Pass the router IP, releaseId, the full release object and how to flash it
+    onSelectRouter(routerIp, releaseId, false, releaseObject, mode);
   };
 
   // Handle manual IP input
@@ -194,8 +256,9 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
       return;
     }
 
-    if (!validateIpAddress(manualIp)) {
-      setManualIpError('Please enter a valid IP address');
+    const ipError = getIpAddressError(manualIp);
+    if (ipError) {
+      setManualIpError(ipError);
       setSuccessMessage(null);
       return;
     }
@@ -211,7 +274,7 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
     }
     
     // Show connecting state
-    setIsScanning(true);
+    setIsCheckingDevice(true);
     setSuccessMessage(null);
     
     try {
@@ -221,7 +284,7 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
       if (!deviceResult) {
         setManualIpError('Could not connect to router: SSH port not accessible');
         setSuccessMessage(null);
-        setIsScanning(false);
+        setIsCheckingDevice(false);
         return;
       }
       
@@ -251,16 +314,16 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
       setManualIpError(`Could not connect to router: ${error instanceof Error ? error.message : String(error)}`);
       setSuccessMessage(null);
     } finally {
-      setIsScanning(false);
+      setIsCheckingDevice(false);
     }
   };
 
   const renderContent = () => {
-    if (isScanning) {
+    if (isScanning && routers.length === 0) {
       return (
         <LoadingState>
           <ProgressBar progress={scanProgress} color="primary" />
-          <LoadingText>Scanning network for routers...</LoadingText>
+          <LoadingText>Scanning network for routers... {scanProgress}%</LoadingText>
         </LoadingState>
       );
     }
@@ -277,11 +340,18 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
     
     return (
       <RouterList>
+        {isScanning && (
+          <LoadingState>
+            <ProgressBar progress={scanProgress} color="primary" />
+            <LoadingText>Still scanning... {scanProgress}%</LoadingText>
+          </LoadingState>
+        )}
         {routers.map((router) => (
           <RouterItem
             key={router.ip}
             router={router}
             releases={releases}
+            releaseChannel={releaseChannel}
             selectedReleaseId={selectedReleaseIds[router.ip]}
             onReleaseSelect={handleReleaseSelect}
             onConnect={handleConnect}
@@ -297,7 +367,55 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
       subtitle="Select a router to install TollGate OS"
     >
       {error && <ErrorMessage>{error}</ErrorMessage>}
+      {importError && <ErrorMessage>{importError}</ErrorMessage>}
       {successMessage && <SuccessMessage>{successMessage}</SuccessMessage>}
+
+      <ProfileBar>
+        Scan profile:
+        <ProfileSelect
+          value={selectedProfile?.id || ''}
+          onChange={(e) => onScanProfileChange(e.target.value)}
+          disabled={isScanning}
+        >
+          {scanProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </ProfileSelect>
+        <Button
+          variant="text"
+          size="small"
+          onClick={() => setEditingProfile(selectedProfile || null)}
+          disabled={isScanning || !selectedProfile}
+        >
+          Edit
+        </Button>
+        <Button variant="text" size="small" onClick={() => setEditingProfile(null)} disabled={isScanning}>
+          New Profile
+        </Button>
+        Release channel:
+        <ProfileSelect
+          value={releaseChannel}
+          onChange={(e) => handleReleaseChannelChange(e.target.value as ReleaseChannel)}
+          title="Newest release offered by default on this workstation"
+        >
+          {RELEASE_CHANNELS.map(channel => (
+            <option key={channel} value={channel}>
+              {channel === 'stable' ? 'Stable' : channel === 'beta' ? 'Beta' : 'Dev (untested)'}
+            </option>
+          ))}
+        </ProfileSelect>
+      </ProfileBar>
+
+      {editingProfile !== undefined && (
+        <ScanProfileEditor
+          key={editingProfile?.id || 'new'}
+          profile={editingProfile}
+          onSaved={handleProfileSaved}
+          onDeleted={handleProfileDeleted}
+          onCancel={() => setEditingProfile(undefined)}
+        />
+      )}
+
       {renderContent()}
 
       <ManualIpSection>
@@ -305,7 +423,7 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
         <ManualIpForm>
           <Input
             label="Router IP Address"
-            placeholder="192.168.1.1"
+            placeholder="192.168.1.1 or fe80::1%eth0"
             value={manualIp}
             onChange={handleManualIpChange}
             error={manualIpError}
@@ -315,6 +433,7 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
             variant="primary"
             onClick={handleManualConnect}
             disabled={isScanning}
+            isLoading={isCheckingDevice}
           >
             Add Router
           </Button>
@@ -329,6 +448,27 @@ const RouterScanner: React.FC<RouterScannerProps> = ({
         >
           Scan Again
         </Button>
+        <Button
+          variant="outline"
+          onClick={handleImportOfflineLibrary}
+          isLoading={isImporting}
+        >
+          Import Offline Library
+        </Button>
+        <Button
+          variant="outline"
+          onClick={onShowSettings}
+        >
+          Relay Settings
+        </Button>
+        {onShowInstalls && (
+          <Button
+            variant="primary"
+            onClick={onShowInstalls}
+          >
+            View Installations{activeInstallCount > 0 ? ` (${activeInstallCount})` : ''}
+          </Button>
+        )}
       </FooterButtons>
     </PageContainer>
   );
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import Button from './common/Button';
+import Input from './common/Input';
+import { ScanProfile } from '../../shared/types';
+
+interface ScanProfileEditorProps {
+  // Profile being edited, or null to create a new one
+  profile: ScanProfile | null;
+  onSaved: (profile: ScanProfile) => void;
+  onDeleted: (id: string) => void;
+  onCancel: () => void;
+}
+
+const EditorContainer = styled.div`
+  background-color: #FFFFFF;
+  border-radius: ${props => props.theme.radii.md};
+  padding: 1.5rem;
+  margin-bottom: 1.5rem;
+  text-align: left;
+`;
+
+const EditorTitle = styled.h3`
+  font-size: ${props => props.theme.fontSizes.lg};
+  margin-bottom: 1rem;
+  color: ${props => props.theme.colors.text};
+`;
+
+const FieldLabel = styled.label`
+  display: block;
+  font-size: ${props => props.theme.fontSizes.sm};
+  font-weight: ${props => props.theme.fontWeights.medium};
+  margin-bottom: ${props => props.theme.space.xs};
+  color: ${props => props.theme.colors.text};
+`;
+
+const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 4.5rem;
+  padding: 0.75rem 1rem;
+  margin-bottom: 1rem;
+  font-family: monospace;
+  font-size: ${props => props.theme.fontSizes.sm};
+  border: 1px solid ${props => props.theme.colors.border};
+  border-radius: ${props => props.theme.radii.md};
+  resize: vertical;
+
+  &:focus {
+    outline: none;
+    border-color: ${props => props.theme.colors.primary};
+  }
+`;
+
+const FieldRow = styled.div`
+  display: flex;
+  gap: 1rem;
+
+  @media (max-width: 600px) {
+    flex-direction: column;
+  }
+`;
+
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  margin-bottom: 1rem;
+  font-size: ${props => props.theme.fontSizes.sm};
+  color: ${props => props.theme.colors.text};
+  cursor: pointer;
+`;
+
+const ErrorMessage = styled.div`
+  color: ${props => props.theme.colors.error};
+  font-size: ${props => props.theme.fontSizes.sm};
+  margin-bottom: 1rem;
+`;
+
+const EditorButtons = styled.div`
+  display: flex;
+  gap: 0.5rem;
+  justify-content: flex-end;
+`;
+
+// Split a textarea or comma list into trimmed, non-empty entries
+const splitList = (value: string): string[] =>
+  value.split(/[\s,]+/).map(entry => entry.trim()).filter(Boolean);
+
+const ScanProfileEditor: React.FC<ScanProfileEditorProps> = ({ profile, onSaved, onDeleted, onCancel }) => {
+  const [name, setName] = useState(profile?.name || '');
+  const [cidrs, setCidrs] = useState((profile?.cidrs || []).join('\n'));
+  const [hosts, setHosts] = useState((profile?.hosts || []).join('\n'));
+  const [ports, setPorts] = useState((profile?.ports || [22]).join(', '));
+  const [timeoutMs, setTimeoutMs] = useState(String(profile?.timeoutMs || 300));
+  const [includeGateways, setIncludeGateways] = useState(profile?.includeGateways ?? true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      // The main process validates the profile and reports the first problem it finds
+      const result = await window.electron.saveScanProfile({
+        id: profile?.id || '',
+        name,
+        cidrs: splitList(cidrs),
+        hosts: splitList(hosts),
+        ports: splitList(ports).map(Number),
+        timeoutMs: Number(timeoutMs),
+        includeGateways
+      });
+      if (result.success && result.profile) {
+        onSaved(result.profile);
+      } else {
+        setError(result.error || 'Could not save the scan profile');
+      }
+    } catch (err) {
+      setError(`Could not save the scan profile: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!profile) return;
+    try {
+      await window.electron.deleteScanProfile(profile.id);
+      onDeleted(profile.id);
+    } catch (err) {
+      setError(`Could not delete the scan profile: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <EditorContainer>
+      <EditorTitle>{profile ? `Edit "${profile.name}"` : 'New scan profile'}</EditorTitle>
+
+      <Input
+        label="Name"
+        placeholder="Lab bench"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        fullWidth
+      />
+
+      <FieldLabel>Address ranges (one CIDR per line)</FieldLabel>
+      <TextArea
+        placeholder={'192.168.1.0/24\n10.20.0.0/22'}
+        value={cidrs}
+        onChange={(e) => setCidrs(e.target.value)}
+      />
+
+      <FieldLabel>Extra hosts (one IP per line)</FieldLabel>
+      <TextArea
+        placeholder="172.16.5.1"
+        value={hosts}
+        onChange={(e) => setHosts(e.target.value)}
+      />
+
+      <FieldRow>
+        <Input
+          label="SSH ports"
+          placeholder="22, 2222"
+          value={ports}
+          onChange={(e) => setPorts(e.target.value)}
+          fullWidth
+        />
+        <Input
+          label="Probe timeout (ms)"
+          type="number"
+          min={50}
+          max={10000}
+          value={timeoutMs}
+          onChange={(e) => setTimeoutMs(e.target.value)}
+          fullWidth
+        />
+      </FieldRow>
+
+      <CheckboxLabel>
+        <input
+          type="checkbox"
+          checked={includeGateways}
+          onChange={(e) => setIncludeGateways(e.target.checked)}
+        />
+        Also probe gateways and neighbours found via routes, ARP, mDNS and DHCP
+      </CheckboxLabel>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+
+      <EditorButtons>
+        {profile && profile.id !== 'default' && (
+          <Button variant="text" size="small" onClick={handleDelete} disabled={isSaving}>
+            Delete
+          </Button>
+        )}
+        <Button variant="outline" size="small" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="small" onClick={handleSave} isLoading={isSaving}>
+          Save Profile
+        </Button>
+      </EditorButtons>
+    </EditorContainer>
+  );
+};
+
+export default ScanProfileEditor;
@@ -6,6 +6,7 @@ interface PageContainerProps {
   children: React.ReactNode;
   title: string;
   subtitle?: string;
+  wide?: boolean;
 }
 
 const Container = styled.div`
@@ -20,13 +21,13 @@ const Container = styled.div`
   z-index: 1;
 `;
 
-const ContentCard = styled.div`
+const ContentCard = styled.div<{ $wide?: boolean }>`
   background: #FFFFFF;
   box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
   padding: ${props => props.theme.space.xl};
   border-radius: ${props => props.theme.radii.lg};
   text-align: center;
-  width: 600px;
+  width: ${props => props.$wide ? '900px' : '600px'};
   max-width: 90%;
   margin: 0 auto;
 `;
@@ -52,11 +53,11 @@ const Subtitle = styled.p`
   max-width: 600px;
 `;
 
-const PageContainer: React.FC<PageContainerProps> = ({ children, title, subtitle }) => {
+const PageContainer: React.FC<PageContainerProps> = ({ children, title, subtitle, wide = false }) => {
   return (
     <Container>
       <Logo src={logoWhite} alt="TollGate Logo" />
-      <ContentCard>
+      <ContentCard $wide={wide}>
         <Title>{title}</Title>
         {subtitle && <Subtitle>{subtitle}</Subtitle>}
         {children}
@@ -1,4 +1,4 @@
-import { RouterInfo } from '../../electron/services/ssh-connector';
+import { RouterInfo } from '../../shared/types';
 
 /**
  * Result of a network scan for potential routers
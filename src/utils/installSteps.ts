@@ -0,0 +1,71 @@
+/**
+ * The install steps shown to the user, in order
+ */
+export const installSteps = [
+  { 
+    title: 'Preparing Installation', 
+    description: 'Checking router compatibility and preparing files' 
+  },
+  { 
+    title: 'Downloading TollGateOS Image', 
+    description: 'Retrieving the firmware image optimized for your router' 
+  },
+  { 
+    title: 'Transferring Files to Router', 
+    description: 'Uploading the firmware image to your router' 
+  },
+  { 
+    title: 'Installing TollGateOS', 
+    description: 'Flashing the firmware and configuring your router' 
+  },
+  { 
+    title: 'Finalizing Setup', 
+    description: 'Completing the installation and starting services' 
+  }
+];
+
+// Map step IDs reported by the installer engine to UI steps
+const stepMap: Record<string, number> = {
+  'queued': 0,
+  'signature-check': 0,
+  'channel-check': 0,
+  'preparing': 0,
+  'compatibility-check': 0,
+  'download-preparation': 0,
+  'downloading': 1,
+  'integrity-check': 1,
+  'checking-space': 2,
+  'transferring': 2,
+  'verifying': 3,
+  'validating-image': 3,
+  'backing-up-settings': 3,
+  'installing': 3,
+  'waiting-for-reboot': 4,
+  'verifying-installation': 4,
+  'verifying-settings': 4,
+  'provisioning-key': 4,
+  'complete': 4
+};
+
+/**
+ * Get the index of the UI step for an engine step ID
+ *
+ * @param step The step ID reported by the installer engine
+ * @returns The UI step index, or -1 if the step is unknown
+ */
+export const getInstallStepIndex = (step?: string | null): number => {
+  if (!step) return -1;
+  return stepMap[step] ?? -1;
+};
+
+/**
+ * Format a byte count as a human readable size
+ *
+ * @param bytes The number of bytes
+ * @returns A formatted size string
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,39 @@
+const IPV4_PATTERN = /^(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
+
+// Interface names on Linux and macOS ("eth0", "en0", "br-lan") or numeric scope IDs on Windows
+const ZONE_PATTERN = /^[0-9a-zA-Z._-]+$/;
+
+/**
+ * Checks whether a string is an IPv6 address, ignoring any zone ID
+ * The browser URL parser accepts exactly the IPv6 literals allowed in a host
+ */
+const isIpv6 = (address: string): boolean => {
+  if (!address.includes(':')) return false;
+  try {
+    new URL(`http://[${address}]/`);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Validates a router address typed in by the user
+ * Accepts dotted IPv4 addresses and IPv6 addresses; IPv6 link-local addresses
+ * must name the interface they are reachable on, e.g. "fe80::1%eth0"
+ *
+ * @param value The address to check
+ * @returns An error message, or undefined when the address is valid
+ */
+export const getIpAddressError = (value: string): string | undefined => {
+  if (IPV4_PATTERN.test(value)) return undefined;
+
+  const [address, zone, ...rest] = value.split('%');
+  if (!isIpv6(address) || rest.length > 0 || (zone !== undefined && !ZONE_PATTERN.test(zone))) {
+    return 'Please enter a valid IPv4 or IPv6 address';
+  }
+  if (/^fe80:/i.test(address) && !zone) {
+    return 'Link-local IPv6 addresses need the interface, e.g. fe80::1%eth0';
+  }
+  return undefined;
+};
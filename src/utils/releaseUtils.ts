@@ -1,26 +1,62 @@
 import { NDKEvent } from '@nostr-dev-kit/ndk';
+import { resolveCompatibility } from '../../shared/release-compatibility';
+import { parseReleaseChannel, isChannelIncluded } from '../../shared/release-channel';
+import { ReleaseChannel } from '../../shared/types';
+import { compareVersions } from '../../shared/version';
+
+export { compareVersions };
 
 /**
  * Checks if a release is compatible with a router based on model information
  * 
  * @param release The Nostr event containing release information
  * @param routerBoardName The board name of the router to check against
+ * @param routerArchitecture The router's architecture, checked against the release's when both are known
  * @returns True if the release is compatible with the router, false otherwise
  */
-export const isReleaseCompatible = (release: NDKEvent, routerBoardName?: string): boolean => {
+export const isReleaseCompatible = (release: NDKEvent, routerBoardName?: string, routerArchitecture?: string): boolean => {
+  return resolveCompatibility(release.tags, { boardName: routerBoardName, architecture: routerArchitecture }).compatible;
+};
 
-  
-  // If no board name is provided, assume incompatible
-  if (!routerBoardName) return false;
-  
-  // Get the model name from the release event
-  const supportedDevices = release.getMatchingTags('supported_devices')?.[0]?.[1];
-  
-  // If no model name is specified in the release, assume incompatible
-  if (!supportedDevices) return false;
+/**
+ * Find the newest release a router can install
+ * 
+ * @param releases The releases to choose from, in any order
+ * @param routerBoardName The board name of the router
+ * @param routerArchitecture The router's architecture, if known
+ * @param channel Only consider releases offered on this channel
+ * @returns The newest compatible release, or undefined if none fits
+ */
+export const findNewestCompatibleRelease = (
+  releases: NDKEvent[],
+  routerBoardName?: string,
+  routerArchitecture?: string,
+  channel: ReleaseChannel = 'dev'
+): NDKEvent | undefined => {
+  const compatible = filterReleasesByChannel(releases, channel)
+    .filter(release => isReleaseCompatible(release, routerBoardName, routerArchitecture));
+  return sortReleasesByVersion(compatible)[0];
+};
 
-  // Check if the model name is a substring of the board name
-  return supportedDevices.toLowerCase().includes(routerBoardName.toLowerCase());
+/**
+ * Get the channel a release was published on
+ * 
+ * @param release The Nostr event containing release information
+ * @returns The channel; untagged releases are stable
+ */
+export const getReleaseChannel = (release: NDKEvent): ReleaseChannel => {
+  return parseReleaseChannel(release.tags);
+};
+
+/**
+ * Keep the releases offered on a channel, which includes every more stable channel
+ * 
+ * @param releases The releases to filter
+ * @param channel The channel being followed
+ * @returns The releases on that channel or a more stable one
+ */
+export const filterReleasesByChannel = (releases: NDKEvent[], channel: ReleaseChannel): NDKEvent[] => {
+  return releases.filter(release => isChannelIncluded(getReleaseChannel(release), channel));
 };
 
 /**
@@ -33,6 +69,34 @@ export const getReleaseVersion = (release: NDKEvent): string => {
   return release.getMatchingTags("tollgate_os_version")?.[0]?.[1] || release.id.substring(0, 8);
 };
 
+/**
+ * Sort releases newest version first
+ * Releases with the same version, or without one, fall back to publication time
+ * 
+ * @param releases The releases to sort
+ * @returns A new array, newest first
+ */
+export const sortReleasesByVersion = (releases: NDKEvent[]): NDKEvent[] => {
+  return [...releases].sort((a, b) =>
+    compareVersions(getReleaseVersionTag(b), getReleaseVersionTag(a)) || (b.created_at || 0) - (a.created_at || 0)
+  );
+};
+
+// The published version, or an empty string (which sorts below any version) when the tag is missing
+const getReleaseVersionTag = (release: NDKEvent): string => {
+  return release.getMatchingTags("tollgate_os_version")?.[0]?.[1] || '';
+};
+
+/**
+ * Format a version for display with a single leading "v"
+ * 
+ * @param version The version string, with or without a "v" prefix
+ * @returns The version as "v1.2.3"
+ */
+export const formatVersion = (version: string): string => {
+  return /^\d/.test(version) ? `v${version}` : version;
+};
+
 /**
  * Get the formatted release date for a release
  * 